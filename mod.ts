@@ -1,18 +1,52 @@
 // Fundamentals
 export { Engine } from "./src/Engine.js"
+export { TypedEventEmitter } from "./src/TypedEventEmitter.js"
+export { ConsoleLogger } from "./src/ConsoleLogger.js"
+export { MetricsRegistry, Counter, Histogram } from "./src/metrics/MetricsRegistry.js"
+export { LookupCache } from "./src/LookupCache.js"
 export type { LookupService } from "./src/LookupService.js"
 export type { TopicManager } from "./src/TopicManager.js"
+export type { ProofFetcher } from "./src/ProofFetcher.js"
+export type { OverlayTransport } from "./src/OverlayTransport.js"
+export type { Logger, LogLevel, LogContext } from "./src/Logger.js"
+export type { MetricLabels } from "./src/metrics/MetricsRegistry.js"
 
 // Interfaces and structures
-export type { Storage, AppliedTransaction } from "./src/storage/Storage.js"
+export type { Storage, AppliedTransaction, PendingPropagation, FailedNotification } from "./src/storage/Storage.js"
+export type { StorageConformanceTest, StorageConformanceResult } from './src/storage/StorageConformanceSuite.js'
 export type { Output } from './src/Output.js'
+export type { OutputDescendants } from './src/OutputDescendants.js'
+export type { IntegrityIssue } from './src/IntegrityIssue.js'
 export type { AdmittanceInstructions } from './src/AdmittanceInstructions.js'
 export type { TaggedBEEF } from './src/TaggedBEEF.js'
-export type { STEAK } from './src/STEAK.js'
+export type { STEAK, TopicAdmittance, TopicStatus } from './src/STEAK.js'
+export type { PropagationRetryPolicy } from './src/PropagationRetryPolicy.js'
+export type { NotificationRetryPolicy } from './src/NotificationRetryPolicy.js'
+export type { RetentionPolicy } from './src/RetentionPolicy.js'
+export type { EngineEvents } from './src/EngineEvents.js'
 export type { LookupQuestion } from './src/LookupQuestion.js'
-export type { LookupFormula } from './src/LookupFormula.js'
+export type { LookupFormula, LookupFormulaPage } from './src/LookupFormula.js'
 export type { LookupAnswer } from './src/LookupAnswer.js'
 
+// Errors raised by the Engine for invalid submissions and lookup questions
+export { ValidationError } from './src/ValidationError.js'
+
+// Errors raised by Storage implementations
+export { DuplicateRecordError } from './src/storage/DuplicateRecordError.js'
+
+// Conformance checks for Storage implementations
+export { storageConformanceTests, runStorageConformanceSuite } from './src/storage/StorageConformanceSuite.js'
+
 // The Knex storage system
 export { KnexStorage } from './src/storage/knex/KnexStorage.js'
 export * as KnexStorageMigrations from './src/storage/knex/all-migrations.js'
+
+// The in-memory storage system
+export { MemoryStorage } from './src/storage/memory/MemoryStorage.js'
+
+// Transports for propagating transactions to other overlay nodes
+export { FetchOverlayTransport } from './src/transport/FetchOverlayTransport.js'
+export { InProcessOverlayTransport } from './src/transport/InProcessOverlayTransport.js'
+
+// Serving an Engine over HTTP
+export { OverlayRequestHandler, createExpressMiddleware } from './src/http/OverlayRequestHandler.js'
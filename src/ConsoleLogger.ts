@@ -0,0 +1,44 @@
+import { Logger, LogLevel, LogContext } from './Logger.js'
+
+const severities: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+}
+
+/**
+ * A Logger which writes to the console, skipping entries below a minimum level.
+ */
+export class ConsoleLogger implements Logger {
+  /**
+   * Creates a new console logger
+   * @param {LogLevel} [level] - the least severe level which is written
+   */
+  constructor(public level: LogLevel = 'info') { }
+
+  debug(message: string, context?: LogContext): void {
+    this.log('debug', message, context)
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.log('info', message, context)
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.log('warn', message, context)
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.log('error', message, context)
+  }
+
+  private log(level: LogLevel, message: string, context?: LogContext): void {
+    if (severities[level] < severities[this.level]) return
+    if (context === undefined) {
+      console[level](message)
+    } else {
+      console[level](message, context)
+    }
+  }
+}
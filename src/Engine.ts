@@ -1,16 +1,53 @@
 import { TopicManager } from './TopicManager.js'
 import { LookupService } from './LookupService.js'
-import { Storage } from './storage/Storage.js'
+import { Storage, PendingPropagation, FailedNotification } from './storage/Storage.js'
+import { DuplicateRecordError } from './storage/DuplicateRecordError.js'
+import { ValidationError } from './ValidationError.js'
 import type { AdmittanceInstructions } from './AdmittanceInstructions.js'
 import type { Output } from './Output.js'
+import type { OutputDescendants } from './OutputDescendants.js'
+import type { IntegrityIssue } from './IntegrityIssue.js'
+import type { RetentionPolicy } from './RetentionPolicy.js'
 import { TaggedBEEF } from './TaggedBEEF.js'
-import { STEAK } from './STEAK.js'
+import { STEAK, TopicAdmittance } from './STEAK.js'
 import { LookupQuestion } from './LookupQuestion.js'
 import { LookupAnswer } from './LookupAnswer.js'
 import { LookupFormula } from './LookupFormula.js'
-import { Transaction, ChainTracker, MerklePath, Broadcaster } from '@bsv/sdk'
+import { Transaction, TransactionInput, TransactionOutput, ChainTracker, MerklePath, Broadcaster, Script, LockingScript, UnlockingScript, Utils } from '@bsv/sdk'
 import { Advertiser } from './Advertiser.js'
 import { SHIPAdvertisement } from './SHIPAdvertisement.js'
+import { ProofFetcher } from './ProofFetcher.js'
+import { PropagationRetryPolicy } from './PropagationRetryPolicy.js'
+import { NotificationRetryPolicy } from './NotificationRetryPolicy.js'
+import { OverlayTransport } from './OverlayTransport.js'
+import { FetchOverlayTransport } from './transport/FetchOverlayTransport.js'
+import { TypedEventEmitter } from './TypedEventEmitter.js'
+import { EngineEvents } from './EngineEvents.js'
+import { Logger } from './Logger.js'
+import { ConsoleLogger } from './ConsoleLogger.js'
+import { MetricsRegistry } from './metrics/MetricsRegistry.js'
+import { EngineMetrics } from './metrics/EngineMetrics.js'
+import { LookupCache } from './LookupCache.js'
+import { MemoryStorage } from './storage/memory/MemoryStorage.js'
+
+/**
+ * A change to topical state that lookup services need to hear about, held back until the change has been committed to storage.
+ */
+type LookupServiceNotification = {
+  type: 'outputAdded'
+  txid: string
+  outputIndex: number
+  outputScript: Script
+  topic: string
+} | {
+  type: 'outputSpent' | 'outputDeleted'
+  txid: string
+  outputIndex: number
+  topic: string
+}
+
+// Stored outputs are scanned in pages, to bound memory use on large databases
+const OUTPUT_PAGE_SIZE = 500
 
 /**
  * Am engine for running BSV Overlay Services (topic managers and lookup services).
@@ -27,6 +64,14 @@ export class Engine {
    * @param {Advertiser} [Advertiser] - handles SHIP and SLAP advertisements for peer-discovery
    * @param {string} shipTrackers - SHIP domains we know to bootstrap the system
    * @param {string} slapTrackers - SAP domains we know to bootstrap the system
+   * @param {ProofFetcher} [proofFetcher] - fetches the merkle proofs of admitted transactions once they are mined
+   * @param {PropagationRetryPolicy} [propagationRetryPolicy] - determines how failed deliveries of transactions to peers are retried
+   * @param {OverlayTransport} [transport] - delivers transactions to peers, over HTTP with fetch by default
+   * @param {Logger} [logger] - reports what happens within the engine, including failures which do not stop processing
+   * @param {MetricsRegistry} [metrics] - holds the metrics instrumenting the engine, which can be rendered for Prometheus
+   * @param {LookupCache} [lookupCache] - caches lookup answers until the lookup service concerned is notified of a change. Answers are not cached if omitted.
+   * @param {Record<string, RetentionPolicy>} [retentionPolicies] - the retention policies of topics, by topic name, taking precedence over those declared by their topic managers
+   * @param {NotificationRetryPolicy} [notificationRetryPolicy] - determines how notifications that lookup services fail to process are retried
    */
   constructor(
     public managers: { [key: string]: TopicManager },
@@ -37,186 +82,119 @@ export class Engine {
     public shipTrackers?: string[],
     public slapTrackers?: string[],
     public broadcaster?: Broadcaster,
-    public advertiser?: Advertiser
-  ) { }
+    public advertiser?: Advertiser,
+    public proofFetcher?: ProofFetcher,
+    public propagationRetryPolicy: PropagationRetryPolicy = {
+      maxAttempts: 10,
+      initialDelay: 10000,
+      maxDelay: 3600000
+    },
+    public transport: OverlayTransport = new FetchOverlayTransport(),
+    public logger: Logger = new ConsoleLogger(),
+    public metrics: MetricsRegistry = new MetricsRegistry(),
+    public lookupCache?: LookupCache,
+    public retentionPolicies: Record<string, RetentionPolicy> = {},
+    public notificationRetryPolicy: NotificationRetryPolicy = {
+      maxAttempts: 10,
+      initialDelay: 10000,
+      maxDelay: 3600000
+    }
+  ) {
+    this.instruments = new EngineMetrics(metrics)
+  }
+
+  /** The metrics instrumenting this engine, within its metrics registry */
+  private readonly instruments: EngineMetrics
+
+  /** Subscribe to these events to observe what the engine does, such as admitting, spending and evicting outputs */
+  readonly events = new TypedEventEmitter<EngineEvents>((event, error) => this.logger.error(`A listener for the ${event} event failed`, { error }))
+
+  /** Schedules the next proof reconciliation while proof polling is running */
+  private proofPollingTimer?: ReturnType<typeof setTimeout>
+
+  /** Schedules the next round of propagation retries while they are running */
+  private propagationRetryTimer?: ReturnType<typeof setTimeout>
+
+  /** Schedules the next pruning while pruning is running */
+  private pruningTimer?: ReturnType<typeof setTimeout>
+
+  /** Schedules the next round of notification retries while they are running */
+  private notificationRetryTimer?: ReturnType<typeof setTimeout>
 
   /**
    * Submits a transaction for processing by Overlay Services.
    * @param {TaggedBEEF} taggedBEEF - The transaction to process
    * @param {function(STEAK): void} [onSTEAKReady] - Optional callback function invoked when the STEAK is ready.
-   * 
+   *
    * The optional callback function should be used to get STEAK when ready, and avoid waiting for broadcast and transaction propagation to complete.
-   * 
+   *
    * @returns {Promise<STEAK>} The submitted transaction execution acknowledgement
+   * @throws {ValidationError} When a topic is not supported, or the BEEF is malformed or fails SPV verification
    */
   async submit(taggedBEEF: TaggedBEEF, onSteakReady?: (steak: STEAK) => void): Promise<STEAK> {
-    for (const t of taggedBEEF.topics) {
-      if (this.managers[t] === undefined || this.managers[t] === null) {
-        throw new Error(`This server does not support this topic: ${t}`)
-      }
-    }
-    // Validate the transaction SPV information
-    const tx = Transaction.fromBEEF(taggedBEEF.beef)
-    const txid = tx.id('hex')
-    const txValid = await tx.verify(this.chainTracker)
-    if (!txValid) throw new Error('Unable to verify SPV information.')
-
-    // Find UTXOs belonging to a particular topic
+    this.events.emit('submitReceived', { taggedBEEF })
+    const stopTimer = this.instruments.submitDuration.startTimer()
+    let tx: Transaction
     const steak: STEAK = {}
-    for (const topic of taggedBEEF.topics) {
-      // Ensure transaction is not already applied to the topic
-      const dupeCheck = await this.storage.doesAppliedTransactionExist({
-        txid,
-        topic
-      })
-      if (dupeCheck) {
-        // The transaction was already processed.
-        // Currently, NO OUTPUTS ARE ADMITTED FOR DUPLICATE TRANSACTIONS.
-        // An alternative decision, one that was decided against, would be to act as if the operation was successful: looking up and returning the list of admitted outputs from when the transaction was originally processed.
-        // This was decided against, because we don't want to encourage unnecessary flooding of duplicative transactions to overlay services.
-        steak[topic] = {
-          outputsToAdmit: [],
-          coinsToRetain: []
-        }
-        continue
-      }
-
-      // Check if any input of this transaction is a previous UTXO, adding previous UTXOs to the list
-      const previousCoins: number[] = []
-      for (const [i, input] of tx.inputs.entries()) {
-        const previousTXID = input.sourceTXID || input.sourceTransaction?.id('hex') as string
-        // Check if a previous UTXO exists in the storage medium
-        const output = await this.storage.findOutput(
-          previousTXID,
-          input.sourceOutputIndex,
-          topic
-        )
-        if (output !== undefined && output !== null) {
-          previousCoins.push(i)
-
-          // This output is now spent.
-          await this.storage.markUTXOAsSpent(
-            output.txid,
-            output.outputIndex,
-            topic
-          )
-
-          // Notify the lookup services about the spending of this output
-          for (const l of Object.values(this.lookupServices)) {
-            try {
-              if (l.outputSpent !== undefined && l.outputSpent !== null) {
-                await l.outputSpent(
-                  output.txid,
-                  output.outputIndex,
-                  topic
-                )
-              }
-            } catch (_) { }
-          }
-        }
-      }
-
-      // Use the manager to determine which outputs are admissable
-      let admissableOutputs: AdmittanceInstructions
+    try {
+      let rejectionReason = 'unsupported_topic'
       try {
-        admissableOutputs = await this.managers[topic].identifyAdmissibleOutputs(taggedBEEF.beef, previousCoins)
-      } catch (_) {
-        // If the topic manager throws an error, other topics may still succeed, so we continue to the next one.
-        // No outputs were admitted to this topic in this case. Note, however, that the transaction is still valid according to Bitcoin, so it may have spent some previous overlay members. This is unavoidable and good.
-        steak[topic] = {
-          outputsToAdmit: [],
-          coinsToRetain: []
-        }
-        continue
-      }
-
-      // Keep track of which outputs to admit, mark as stale, or retain
-      const outputsToAdmit: number[] = admissableOutputs.outputsToAdmit
-      const staleCoins: Array<{
-        txid: string
-        outputIndex: number
-      }> = []
-      const outputsConsumed: Array<{
-        txid: string
-        outputIndex: number
-      }> = []
-
-      // Find which outputs should not be retained and mark them as stale
-      // For each of the previous UTXOs, if the the UTXO was not included in the list of UTXOs identified for retention, then it will be marked as stale.
-      for (const inputIndex of previousCoins) {
-        const previousTXID = tx.inputs[inputIndex].sourceTXID || tx.inputs[inputIndex].sourceTransaction?.id('hex') as string
-        const previousOutputIndex = tx.inputs[inputIndex].sourceOutputIndex
-        if (!admissableOutputs.coinsToRetain.includes(inputIndex)) {
-          staleCoins.push({
-            txid: previousTXID,
-            outputIndex: previousOutputIndex
-          })
-        } else {
-          outputsConsumed.push({
-            txid: previousTXID,
-            outputIndex: previousOutputIndex
-          })
+        for (const t of taggedBEEF.topics) {
+          if (this.managers[t] === undefined || this.managers[t] === null) {
+            throw new ValidationError(`This server does not support this topic: ${t}`)
+          }
         }
-      }
-
-      // Remove stale outputs recursively
-      for (const coin of staleCoins) {
-        const output = await this.storage.findOutput(coin.txid, coin.outputIndex, topic)
-        if (output !== undefined && output !== null) {
-          await this.deleteUTXODeep(output)
+        // Validate the transaction SPV information
+        rejectionReason = 'invalid_spv'
+        try {
+          tx = Transaction.fromBEEF(taggedBEEF.beef)
+        } catch (error) {
+          throw new ValidationError(error instanceof Error ? error.message : String(error))
         }
+        const verificationError = await findVerificationError(tx, this.chainTracker, 'Unable to verify SPV information.')
+        if (verificationError !== undefined) throw new ValidationError(verificationError)
+      } catch (error) {
+        this.instruments.submissions.inc({ outcome: 'rejected' })
+        this.instruments.submitRejections.inc({ reason: rejectionReason })
+        this.events.emit('submitRejected', { taggedBEEF, error: error instanceof Error ? error : new Error(String(error)) })
+        throw error
       }
 
-      // Handle admittance and notification of incoming UTXOs
-      const newUTXOs: Array<{ txid: string, outputIndex: number }> = []
-      for (const outputIndex of outputsToAdmit) {
-        // Store the output
-        await this.storage.insertOutput({
-          txid,
-          outputIndex,
-          outputScript: tx.outputs[outputIndex].lockingScript.toBinary(),
-          satoshis: tx.outputs[outputIndex].satoshis as number,
-          topic,
-          spent: false,
-          beef: taggedBEEF.beef,
-          consumedBy: [],
-          outputsConsumed
-        })
-        newUTXOs.push({
-          txid,
-          outputIndex
-        })
+      // Find UTXOs belonging to a particular topic
+      for (const topic of taggedBEEF.topics) {
+        // Lookup services are only told about changes once the topic's storage changes have been committed
+        const notifications: LookupServiceNotification[] = []
 
-        // Notify all the lookup services about the new UTXO
-        for (const l of Object.values(this.lookupServices)) {
-          try {
-            if (l.outputAdded !== undefined && l.outputAdded !== null) {
-              await l.outputAdded(txid, outputIndex, tx.outputs[outputIndex].lockingScript, topic)
-            }
-          } catch (_) { }
+        // Each topic is processed as a single unit of work, so a failure part way through leaves no partial state behind
+        try {
+          steak[topic] = await this.storage.transaction(async storage => await this.admitToTopic(tx, taggedBEEF.beef, topic, storage, notifications))
+        } catch (error) {
+          if (!(error instanceof DuplicateRecordError)) {
+            this.instruments.submissions.inc({ outcome: 'failed' })
+            throw error
+          }
+          // Another submission of the same transaction was processed concurrently, so this one is treated as a duplicate
+          steak[topic] = {
+            outputsToAdmit: [],
+            coinsToRetain: [],
+            status: 'duplicate',
+            coinsSpent: [],
+            coinsEvicted: []
+          }
+          continue
         }
-      }
 
-      // Update each output consumed to know who consumed it
-      for (const output of outputsConsumed) {
-        const outputToUpdate = await this.storage.findOutput(output.txid, output.outputIndex, topic)
-        if (outputToUpdate !== undefined && outputToUpdate !== null) {
-          const newConsumedBy = [...new Set([...newUTXOs, ...outputToUpdate.consumedBy])]
-          // Note: only update if newConsumedBy !== new Set(JSON.parse(outputToUpdate.consumedBy)) ?
-          await this.storage.updateConsumedBy(output.txid, output.outputIndex, topic, newConsumedBy)
+        // The topic's changes are now committed, so the lookup services can safely be told about them
+        for (const notification of notifications) {
+          await this.notifyLookupServices(notification)
         }
       }
-
-      // Insert the applied transaction to prevent duplicate processing
-      await this.storage.insertAppliedTransaction({
-        txid,
-        topic
-      })
-
-      // Keep track of what outputs were admitted for what topic
-      steak[topic] = admissableOutputs
+    } finally {
+      stopTimer()
     }
 
+    this.instruments.submissions.inc({ outcome: 'accepted' })
+
     // Call the callback function if it is provided
     if (onSteakReady) {
       onSteakReady(steak)
@@ -265,7 +243,7 @@ export class Engine {
                   shipAdvertisements.push(advertisement)
                 }
               } catch (error) {
-                console.error('Failed to parse advertisement output:', error)
+                this.logger.warn('Failed to parse advertisement output', { outputIndex: output.outputIndex, topic, error })
               }
             })
             if (shipAdvertisements.length > 0) {
@@ -278,12 +256,10 @@ export class Engine {
             }
           }
         } catch (error) {
-          console.error(`Error looking up topic ${String(topic)}:`, error)
+          this.logger.error('Failed to look up the peers hosting a topic', { topic, error })
         }
       }
 
-      const broadcastPromises: Array<Promise<Response>> = []
-
       // Make sure we gossip to the shipTrackers we know about.
       if (this.shipTrackers !== undefined && this.shipTrackers.length !== 0 && relevantTopics.includes('tm_ship')) {
         this.shipTrackers.forEach(tracker => {
@@ -306,52 +282,372 @@ export class Engine {
         })
       }
 
-      // Note: We are depending on window.fetch, this may not be ideal for the long term.
+      // Deliveries are recorded in the outbox first, so that any which fail can be retried later
+      const propagations: PendingPropagation[] = []
       for (const [domain, topics] of domainToTopicsMap.entries()) {
         if (domain !== this.hostingURL) {
-          const promise = fetch(`${String(domain)}/submit`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/octet-stream',
-              'X-Topics': JSON.stringify(Array.from(topics))
-            },
-            body: new Uint8Array(taggedBEEF.beef)
-          })
-          broadcastPromises.push(promise)
+          const propagation = {
+            domain,
+            topics: Array.from(topics),
+            beef: taggedBEEF.beef,
+            attempts: 0,
+            nextAttemptAt: new Date()
+          }
+          try {
+            propagations.push({ ...propagation, id: await this.storage.insertPropagation(propagation) })
+          } catch (error) {
+            this.logger.error('Failed to record a propagation', { txid: tx.id('hex'), domain, error })
+          }
+        }
+      }
+      await Promise.all(propagations.map(async propagation => await this.deliverPropagation(propagation)))
+    }
+
+    // Immediately return from the function without waiting for the promises to resolve.
+    return steak
+  }
+
+  /**
+   * Submits a batch of transactions for processing by Overlay Services, where transactions may spend outputs created by others in the same batch.
+   *
+   * Every transaction given by a Tagged BEEF is submitted: the subject of each BEEF, along with any other unproven transaction the BEEF contains. This allows a single BEEF carrying a whole chain of transactions to be submitted at once.
+   * Transactions are submitted one at a time, ordered so that every transaction is processed after those it spends from, which lets topic managers see outputs admitted earlier in the batch as previous coins.
+   * A transaction appearing in several Tagged BEEFs is only submitted once, to all of their topics.
+   *
+   * Processing stops at the first transaction that fails to be submitted, leaving the transactions before it processed.
+   *
+   * @param {TaggedBEEF[]} taggedBEEFs - The transactions to process
+   * @returns {Promise<Record<string, STEAK>>} The execution acknowledgement of every submitted transaction, keyed by TXID, in the order the transactions were processed
+   * @throws {ValidationError} When a topic is not supported or a BEEF is malformed, before anything is processed, or when a transaction is rejected by submit
+   */
+  async submitMany(taggedBEEFs: TaggedBEEF[]): Promise<Record<string, STEAK>> {
+    for (const taggedBEEF of taggedBEEFs) {
+      for (const t of taggedBEEF.topics) {
+        if (this.managers[t] === undefined || this.managers[t] === null) {
+          throw new ValidationError(`This server does not support this topic: ${t}`)
         }
       }
+    }
 
+    // Collect the transactions to submit, merging the topics of any transaction given more than once
+    const submissions = new Map<string, { tx: Transaction, topics: Set<string> }>()
+    for (const taggedBEEF of taggedBEEFs) {
+      let transactions: Transaction[]
       try {
-        await Promise.all(broadcastPromises)
+        transactions = readBEEFTransactions(taggedBEEF.beef)
       } catch (error) {
-        console.error('Error during broadcasting:', error)
+        throw new ValidationError(error instanceof Error ? error.message : String(error))
       }
+      transactions.forEach((tx, i) => {
+        if (tx.merklePath !== undefined && i !== transactions.length - 1) return
+        const txid = tx.id('hex')
+        const submission = submissions.get(txid)
+        if (submission === undefined) {
+          submissions.set(txid, { tx, topics: new Set(taggedBEEF.topics) })
+        } else {
+          taggedBEEF.topics.forEach(topic => submission.topics.add(topic))
+        }
+      })
     }
 
-    // Immediately return from the function without waiting for the promises to resolve.
-    return steak
+    // Order the transactions so that each one comes after every transaction in the batch it spends from
+    const ordered = orderByDependency(new Map(Array.from(submissions, ([txid, { tx }]) => [txid, tx])))
+
+    const steaks: Record<string, STEAK> = {}
+    for (const txid of ordered) {
+      const { tx, topics } = submissions.get(txid) as { tx: Transaction, topics: Set<string> }
+      steaks[txid] = await this.submit({
+        beef: tx.toBEEF(),
+        topics: Array.from(topics)
+      })
+    }
+    return steaks
+  }
+
+  /**
+   * Applies a submitted transaction to a single topic: spends previous topical UTXOs, admits new outputs as the topic manager instructs, and records the transaction as applied.
+   * @param tx - The submitted transaction, already verified.
+   * @param beef - The submitted transaction in BEEF format.
+   * @param topic - The topic to apply the transaction to.
+   * @param storage - The storage to use, typically the unit of work for the topic.
+   * @param notifications - Collects the lookup service notifications to send once the changes have been committed.
+   * @returns The admittance instructions followed for the topic, with the outcome of the transaction.
+   */
+  private async admitToTopic(
+    tx: Transaction,
+    beef: number[],
+    topic: string,
+    storage: Storage,
+    notifications: LookupServiceNotification[]
+  ): Promise<TopicAdmittance> {
+    const txid = tx.id('hex')
+
+    // Ensure transaction is not already applied to the topic
+    const dupeCheck = await storage.doesAppliedTransactionExist({
+      txid,
+      topic
+    })
+    if (dupeCheck) {
+      // The transaction was already processed.
+      // Currently, NO OUTPUTS ARE ADMITTED FOR DUPLICATE TRANSACTIONS.
+      // An alternative decision, one that was decided against, would be to act as if the operation was successful: looking up and returning the list of admitted outputs from when the transaction was originally processed.
+      // This was decided against, because we don't want to encourage unnecessary flooding of duplicative transactions to overlay services.
+      return {
+        outputsToAdmit: [],
+        coinsToRetain: [],
+        status: 'duplicate',
+        coinsSpent: [],
+        coinsEvicted: []
+      }
+    }
+
+    // Check if any input of this transaction is a previous UTXO, adding previous UTXOs to the list
+    const previousCoins: number[] = []
+    const coinsSpent: Array<{ txid: string, outputIndex: number }> = []
+    for (const [i, input] of tx.inputs.entries()) {
+      const previousTXID = input.sourceTXID || input.sourceTransaction?.id('hex') as string
+      // Check if a previous UTXO exists in the storage medium
+      const output = await storage.findOutput(
+        previousTXID,
+        input.sourceOutputIndex,
+        topic
+      )
+      if (output !== undefined && output !== null) {
+        previousCoins.push(i)
+        coinsSpent.push({ txid: output.txid, outputIndex: output.outputIndex })
+
+        // This output is now spent.
+        await storage.markUTXOAsSpent(
+          output.txid,
+          output.outputIndex,
+          topic
+        )
+
+        // Notify the lookup services about the spending of this output
+        notifications.push({
+          type: 'outputSpent',
+          txid: output.txid,
+          outputIndex: output.outputIndex,
+          topic
+        })
+      }
+    }
+
+    // Use the manager to determine which outputs are admissable
+    let admissableOutputs: AdmittanceInstructions
+    try {
+      admissableOutputs = await this.managers[topic].identifyAdmissibleOutputs(beef, previousCoins)
+    } catch (error) {
+      this.logger.warn('Topic manager failed to identify admissible outputs', { txid, topic, error })
+      // If the topic manager throws an error, other topics may still succeed, so we continue to the next one.
+      // No outputs were admitted to this topic in this case. Note, however, that the transaction is still valid according to Bitcoin, so it may have spent some previous overlay members. This is unavoidable and good.
+      return {
+        outputsToAdmit: [],
+        coinsToRetain: [],
+        status: 'rejected-by-manager',
+        message: error instanceof Error ? error.message : String(error),
+        coinsSpent,
+        coinsEvicted: []
+      }
+    }
+
+    // Keep track of which outputs to admit, mark as stale, or retain
+    const outputsToAdmit: number[] = admissableOutputs.outputsToAdmit
+    const staleCoins: Array<{
+      txid: string
+      outputIndex: number
+    }> = []
+    const outputsConsumed: Array<{
+      txid: string
+      outputIndex: number
+    }> = []
+
+    // Find which outputs should not be retained and mark them as stale
+    // For each of the previous UTXOs, if the the UTXO was not included in the list of UTXOs identified for retention, then it will be marked as stale.
+    for (const inputIndex of previousCoins) {
+      const previousTXID = tx.inputs[inputIndex].sourceTXID || tx.inputs[inputIndex].sourceTransaction?.id('hex') as string
+      const previousOutputIndex = tx.inputs[inputIndex].sourceOutputIndex
+      if (!admissableOutputs.coinsToRetain.includes(inputIndex)) {
+        staleCoins.push({
+          txid: previousTXID,
+          outputIndex: previousOutputIndex
+        })
+      } else {
+        outputsConsumed.push({
+          txid: previousTXID,
+          outputIndex: previousOutputIndex
+        })
+      }
+    }
+
+    // Remove stale outputs recursively
+    const coinsEvicted: Array<{ txid: string, outputIndex: number }> = []
+    for (const coin of staleCoins) {
+      const output = await storage.findOutput(coin.txid, coin.outputIndex, topic)
+      if (output !== undefined && output !== null) {
+        // Outputs still consumed by others are kept as their history, rather than evicted
+        if (output.consumedBy.length === 0) {
+          coinsEvicted.push(coin)
+        }
+        await this.deleteUTXODeep(output, storage, notifications)
+      }
+    }
+
+    // Handle admittance and notification of incoming UTXOs
+    const newUTXOs: Array<{ txid: string, outputIndex: number }> = []
+    for (const outputIndex of outputsToAdmit) {
+      // Store the output
+      await storage.insertOutput({
+        txid,
+        outputIndex,
+        outputScript: tx.outputs[outputIndex].lockingScript.toBinary(),
+        satoshis: tx.outputs[outputIndex].satoshis as number,
+        topic,
+        spent: false,
+        beef,
+        consumedBy: [],
+        outputsConsumed,
+        admittedAt: new Date()
+      })
+      newUTXOs.push({
+        txid,
+        outputIndex
+      })
+
+      // Notify all the lookup services about the new UTXO
+      notifications.push({
+        type: 'outputAdded',
+        txid,
+        outputIndex,
+        outputScript: tx.outputs[outputIndex].lockingScript,
+        topic
+      })
+    }
+
+    // Update each output consumed to know who consumed it
+    for (const output of outputsConsumed) {
+      const outputToUpdate = await storage.findOutput(output.txid, output.outputIndex, topic)
+      if (outputToUpdate !== undefined && outputToUpdate !== null) {
+        const newConsumedBy = [...new Set([...newUTXOs, ...outputToUpdate.consumedBy])]
+        // Note: only update if newConsumedBy !== new Set(JSON.parse(outputToUpdate.consumedBy)) ?
+        await storage.updateConsumedBy(output.txid, output.outputIndex, topic, newConsumedBy)
+      }
+    }
+
+    // Insert the applied transaction to prevent duplicate processing
+    await storage.insertAppliedTransaction({
+      txid,
+      topic
+    })
+
+    // Keep track of what outputs were admitted for what topic
+    return {
+      outputsToAdmit: admissableOutputs.outputsToAdmit,
+      coinsToRetain: admissableOutputs.coinsToRetain,
+      status: outputsToAdmit.length > 0 ? 'admitted' : 'no-admissible-outputs',
+      coinsSpent,
+      coinsEvicted
+    }
   }
 
   /**
    * Submit a lookup question to the Overlay Services Engine, and receive bakc a Lookup Answer
    * @param LookupQuestion — The question to ask the Overlay Services Engine
    * @returns The answer to the question
+   * @throws {ValidationError} When no lookup service is found for the provider, or the format, limit or cursor of the question is invalid
    */
   async lookup(lookupQuestion: LookupQuestion): Promise<LookupAnswer> {
     // Validate a lookup service for the provider is found
     const lookupService = this.lookupServices[lookupQuestion.service]
-    if (lookupService === undefined || lookupService === null) throw new Error(`Lookup service not found for provider: ${lookupQuestion.service}`)
+    if (lookupService === undefined || lookupService === null) throw new ValidationError(`Lookup service not found for provider: ${lookupQuestion.service}`)
+
+    const cachedAnswer = this.lookupCache?.get(lookupQuestion)
+    if (cachedAnswer !== undefined) {
+      this.instruments.lookups.inc({ service: lookupQuestion.service, outcome: 'cached' })
+      return cachedAnswer
+    }
+
+    // The answer is only cached if the lookup service is not notified of a change while it is prepared
+    const generation = this.lookupCache?.generation(lookupQuestion.service)
+    const stopTimer = this.instruments.lookupDuration.startTimer({ service: lookupQuestion.service })
+    try {
+      let answer = await this.answerLookup(lookupService, lookupQuestion)
+      if (lookupQuestion.format === 'merged-beef' && answer.type === 'output-list') {
+        answer = mergeOutputList(answer)
+      }
+      this.instruments.lookups.inc({ service: lookupQuestion.service, outcome: 'answered' })
+      this.lookupCache?.set(lookupQuestion, answer, generation)
+      return answer
+    } catch (error) {
+      this.instruments.lookups.inc({ service: lookupQuestion.service, outcome: 'failed' })
+      throw error
+    } finally {
+      stopTimer()
+    }
+  }
+
+  /**
+   * Answers a lookup question with a lookup service, hydrating the outputs it identifies with their BEEF and history.
+   * @param lookupService - The lookup service the question is for.
+   * @param lookupQuestion - The question to answer.
+   * @returns The answer to the question
+   */
+  private async answerLookup(lookupService: LookupService, lookupQuestion: LookupQuestion): Promise<LookupAnswer> {
+    const { limit, cursor, format } = lookupQuestion
+    if (format !== undefined && format !== 'output-list' && format !== 'merged-beef') {
+      throw new ValidationError(`Unsupported lookup answer format: ${String(format)}`)
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new ValidationError(`The lookup limit must be a positive integer, received ${limit}.`)
+    }
 
-    let lookupResult = await lookupService.lookup(lookupQuestion)
+    const lookupResult = await lookupService.lookup(lookupQuestion)
     // Handle custom lookup service answers
-    if ((lookupResult as LookupAnswer).type === 'freeform' || (lookupResult as LookupAnswer).type === 'output-list') {
-      return lookupResult as LookupAnswer
+    if (!Array.isArray(lookupResult) && lookupResult.type !== 'formula') {
+      return lookupResult
+    }
+
+    // Lookup services returning a page of their formula have already applied the limit and cursor
+    if (!Array.isArray(lookupResult)) {
+      const answer: LookupAnswer = {
+        type: 'output-list',
+        outputs: await this.hydrateLookupFormula(lookupResult.formula)
+      }
+      if (lookupResult.cursor !== undefined) {
+        answer.cursor = lookupResult.cursor
+      }
+      return answer
+    }
+
+    // Otherwise, the cursor is the position within the formula where the previous page ended
+    let start = 0
+    if (cursor !== undefined) {
+      start = Number(cursor)
+      if (!/^\d+$/.test(cursor) || !Number.isSafeInteger(start)) {
+        throw new ValidationError(`Invalid lookup cursor: ${cursor}`)
+      }
+    }
+    const answer: LookupAnswer = { type: 'output-list', outputs: [] }
+    let position = start
+    for (; position < lookupResult.length; position++) {
+      if (limit !== undefined && answer.outputs.length >= limit) break
+      answer.outputs.push(...await this.hydrateLookupFormula([lookupResult[position]]))
+    }
+    if (position < lookupResult.length) {
+      answer.cursor = String(position)
     }
-    lookupResult = lookupResult as LookupFormula
+    return answer
+  }
 
+  /**
+   * Hydrates the outputs identified by a lookup formula with their BEEF and history, skipping those no longer unspent.
+   * @param formula - The formula identifying the outputs.
+   * @returns The hydrated outputs
+   */
+  private async hydrateLookupFormula(formula: LookupFormula): Promise<Array<{ beef: number[], outputIndex: number }>> {
     const hydratedOutputs: Array<{ beef: number[], outputIndex: number }> = []
 
-    for (const { txid, outputIndex, history } of lookupResult) {
+    for (const { txid, outputIndex, history } of formula) {
       // Make sure this is an unspent output (UTXO)
       const UTXO = await this.storage.findOutput(
         txid,
@@ -370,14 +666,11 @@ export class Engine {
         })
       }
     }
-    return {
-      type: 'output-list',
-      outputs: hydratedOutputs
-    }
+    return hydratedOutputs
   }
 
   /**
-   * Ensures alignment between the current SHIP/SLAP advertisements and the 
+   * Ensures alignment between the current SHIP/SLAP advertisements and the
    * configured Topic Managers and Lookup Services in the engine.
    *
    * This method performs the following actions:
@@ -403,7 +696,10 @@ export class Engine {
 
     // Step 1: Retrieve Current Configuration
     const configuredTopics = Object.keys(this.managers)
-    const configuredServices = Object.keys(this.lookupServices)
+    // Lookup services which subscribe to none of the hosted topics have nothing to answer with
+    const configuredServices = Object.entries(this.lookupServices)
+      .filter(([, l]) => configuredTopics.some(topic => subscribesTo(l, topic)))
+      .map(([service]) => service)
 
     // Step 2: Fetch Existing Advertisements
     const currentSHIPAdvertisements = await advertiser.findAllSHIPAdvertisements()
@@ -428,7 +724,7 @@ export class Engine {
         const taggedBEEF = await advertiser.createSHIPAdvertisement(topic)
         await this.submit(taggedBEEF)
       } catch (error) {
-        console.error('Failed to create SHIP advertisement:', error)
+        this.logger.error('Failed to create SHIP advertisement', { topic, error })
       }
     }
 
@@ -437,7 +733,7 @@ export class Engine {
         const taggedBEEF = await advertiser.createSLAPAdvertisement(service)
         await this.submit(taggedBEEF)
       } catch (error) {
-        console.error('Failed to create SLAP advertisement:', error)
+        this.logger.error('Failed to create SLAP advertisement', { service, error })
       }
     }
 
@@ -446,7 +742,7 @@ export class Engine {
         const taggedBEEF = await advertiser.revokeAdvertisement(ad)
         await this.submit(taggedBEEF)
       } catch (error) {
-        console.error('Failed to revoke SHIP advertisement:', error)
+        this.logger.error('Failed to revoke SHIP advertisement', { topic: ad.topic, domain: ad.domain, error })
       }
     }
 
@@ -455,7 +751,7 @@ export class Engine {
         const taggedBEEF = await advertiser.revokeAdvertisement(ad)
         await this.submit(taggedBEEF)
       } catch (error) {
-        console.error('Failed to revoke SLAP advertisement:', error)
+        this.logger.error('Failed to revoke SLAP advertisement', { service: ad.service, domain: ad.domain, error })
       }
     }
   }
@@ -538,33 +834,83 @@ export class Engine {
     } catch (e) {
       // Handle any errors that occurred
       // Note: Test this!
-      console.error(`Error retrieving UTXO history: ${e}`)
+      this.logger.error('Error retrieving UTXO history', { txid: output.txid, outputIndex: output.outputIndex, topic: output.topic, error: e })
       // return []
       throw new Error(`Error retrieving UTXO history: ${e}`)
     }
   }
 
+  /**
+   * Traverse the descendants of an output, following the outputs of the same topic which were created by spending it.
+   *
+   * This is the counterpart of getUTXOHistory, answering what happened to an output after it was spent.
+   * Only the descendants still retained within the topic can be found.
+   *
+   * @param txid - The TXID of the output to start from.
+   * @param outputIndex - The index of the output to start from.
+   * @param topic - The topic the output belongs to.
+   * @param descendantSelector - Optionally directs the traversal:
+   *  - If a number, denotes how many subsequent spends (in terms of chain depth) to include.
+   *  - If a function, accepts a BEEF-formatted transaction, an output index, and the current depth as parameters,
+   *    returning a promise that resolves to a boolean indicating whether to include the output and continue past it.
+   *  If not provided, every retained descendant is included.
+   * @param {number} [currentDepth=0] - The current depth of the traversal relative to the output started from.
+   *
+   * @returns {Promise<OutputDescendants | undefined>} - A promise that resolves to the output and its descendants, or undefined if the output is not found or not selected.
+   */
+  async getOutputDescendants(
+    txid: string,
+    outputIndex: number,
+    topic: string,
+    descendantSelector?: ((beef: number[], outputIndex: number, currentDepth: number) => Promise<boolean>) | number,
+    currentDepth = 0
+  ): Promise<OutputDescendants | undefined> {
+    const output = await this.storage.findOutput(txid, outputIndex, topic)
+    if (output === undefined || output === null) {
+      return undefined
+    }
+
+    // Determine if the traversal should include the current node
+    let shouldTraverse
+    if (typeof descendantSelector === 'function') {
+      shouldTraverse = await descendantSelector(output.beef, output.outputIndex, currentDepth)
+    } else {
+      shouldTraverse = descendantSelector === undefined || currentDepth <= descendantSelector
+    }
+    if (!shouldTraverse) {
+      return undefined
+    }
+
+    const descendants: OutputDescendants[] = []
+    for (const consumer of output.consumedBy) {
+      const descendant = await this.getOutputDescendants(consumer.txid, consumer.outputIndex, topic, descendantSelector, currentDepth + 1)
+      if (descendant !== undefined) {
+        descendants.push(descendant)
+      }
+    }
+    return { output, depth: currentDepth, descendants }
+  }
+
   /**
    * Delete a UTXO and all stale consumed inputs.
    * @param output - The UTXO to be deleted.
+   * @param storage - The storage to delete from, typically the unit of work the deletion is part of.
+   * @param notifications - Collects the lookup service notifications to send once the deletion has been committed.
    * @returns {Promise<void>} - A promise that resolves when the deletion process is complete.
    */
-  private async deleteUTXODeep(output: Output): Promise<void> {
+  private async deleteUTXODeep(output: Output, storage: Storage, notifications: LookupServiceNotification[]): Promise<void> {
     try {
       // Delete the current output IFF there are no references to it
       if (output.consumedBy.length === 0) {
-        await this.storage.deleteOutput(output.txid, output.outputIndex, output.topic)
+        await storage.deleteOutput(output.txid, output.outputIndex, output.topic)
 
         // Notify the lookup services of the UTXO being deleted
-        for (const l of Object.values(this.lookupServices)) {
-          try {
-            await l.outputDeleted?.(
-              output.txid,
-              output.outputIndex,
-              output.topic
-            )
-          } catch (_) { }
-        }
+        notifications.push({
+          type: 'outputDeleted',
+          txid: output.txid,
+          outputIndex: output.outputIndex,
+          topic: output.topic
+        })
       }
 
       // If there are no more consumed utxos, return
@@ -573,75 +919,202 @@ export class Engine {
       }
 
       // Delete any stale outputs that were consumed as inputs
-      output.outputsConsumed.map(async (outputIdentifier) => {
-        const staleOutput = await this.storage.findOutput(outputIdentifier.txid, outputIdentifier.outputIndex, output.topic)
+      for (const outputIdentifier of output.outputsConsumed) {
+        const staleOutput = await storage.findOutput(outputIdentifier.txid, outputIdentifier.outputIndex, output.topic)
 
         // Make sure an output was found
         if (staleOutput === null || staleOutput === undefined) {
-          return undefined
+          continue
         }
 
         // Parse out the existing data, then concat the new outputs with no duplicates
         if (staleOutput.consumedBy.length !== 0) {
-          staleOutput.consumedBy = staleOutput.consumedBy.filter(x => x.txid !== output.txid && x.outputIndex !== output.outputIndex)
+          staleOutput.consumedBy = staleOutput.consumedBy.filter(x => x.txid !== output.txid || x.outputIndex !== output.outputIndex)
           // Update with the new consumedBy data
-          await this.storage.updateConsumedBy(outputIdentifier.txid, outputIdentifier.outputIndex, output.topic, staleOutput.consumedBy)
+          await storage.updateConsumedBy(outputIdentifier.txid, outputIdentifier.outputIndex, output.topic, staleOutput.consumedBy)
         }
 
         // Find previousUTXO history
-        return await this.deleteUTXODeep(staleOutput)
-      })
+        await this.deleteUTXODeep(staleOutput, storage, notifications)
+      }
     } catch (error) {
       throw new Error(`Failed to delete all stale outputs: ${error as string}`)
     }
   }
 
+  /**
+   * Notifies the lookup services subscribed to the topic, and subscribers to the engine's events, about a committed change to topical state.
+   * The cached answers of each lookup service notified are dropped.
+   * Failures within a lookup service do not affect the other lookup services, and are recorded so that the notification is retried.
+   * While an earlier notification about the same output is waiting to be retried for a lookup service, the notification is queued behind it instead of delivered, so that the service processes them in order.
+   * @param notification - The change to notify the lookup services about.
+   */
+  private async notifyLookupServices(notification: LookupServiceNotification): Promise<void> {
+    const { txid, outputIndex, topic } = notification
+    if (notification.type === 'outputAdded') {
+      this.instruments.outputsAdmitted.inc({ topic })
+      this.events.emit('outputAdmitted', { txid, outputIndex, topic })
+    } else if (notification.type === 'outputSpent') {
+      this.instruments.outputsSpent.inc({ topic })
+      this.events.emit('outputSpent', { txid, outputIndex, topic })
+    } else {
+      this.instruments.outputsEvicted.inc({ topic })
+      this.events.emit('outputEvicted', { txid, outputIndex, topic })
+    }
+
+    let waiting: Set<string> | undefined
+    for (const [service, l] of Object.entries(this.lookupServices)) {
+      if (!subscribesTo(l, topic)) continue
+      waiting ??= await this.findServicesWaitingForRetries(notification)
+      if (waiting.has(service)) {
+        this.logger.debug(`Queued the ${notification.type} notification behind an earlier failed notification`, { service, txid, outputIndex, topic })
+        await this.insertNotificationForRetry(service, notification, 0, new Date(), 'Waiting for an earlier notification about the output to be processed')
+        continue
+      }
+      // The answers of the service may reflect the change, even if the service fails to process it
+      this.lookupCache?.invalidate(service)
+      try {
+        await deliverNotification(l, notification)
+      } catch (error) {
+        this.logger.error(`Lookup service failed to process the ${notification.type} notification`, { service, txid, outputIndex, topic, error })
+        await this.recordFailedNotification(service, notification, error)
+      }
+    }
+  }
+
+  /**
+   * Drops the cached answers of the lookup services subscribed to any of the given topics, such as when the BEEF of their outputs changes
+   * without the lookup services being notified.
+   * @param topics - The topics whose outputs have changed.
+   */
+  private invalidateLookupCache(topics: Set<string>): void {
+    if (this.lookupCache === undefined || topics.size === 0) return
+    for (const [service, l] of Object.entries(this.lookupServices)) {
+      if (Array.from(topics).some(topic => subscribesTo(l, topic))) {
+        this.lookupCache.invalidate(service)
+      }
+    }
+  }
+
+  /**
+   * Records a notification that a lookup service failed to process, so that it is retried.
+   * @param service - The name of the lookup service.
+   * @param notification - The notification it failed to process.
+   * @param error - Why it failed.
+   */
+  private async recordFailedNotification(service: string, notification: LookupServiceNotification, error: unknown): Promise<void> {
+    const { type, txid, outputIndex, topic } = notification
+    const message = error instanceof Error ? error.message : String(error)
+    const nextAttemptAt = this.nextNotificationAttemptAt(1)
+    this.events.emit('lookupNotificationFailed', { service, type, txid, outputIndex, topic, attempts: 1, error: message, willRetry: nextAttemptAt !== undefined })
+    await this.insertNotificationForRetry(service, notification, 1, nextAttemptAt, message)
+  }
+
+  /**
+   * Keeps a notification for a lookup service along with its failed notifications, so that it is processed by retryFailedNotifications.
+   * @param service - The name of the lookup service.
+   * @param notification - The notification to keep.
+   * @param attempts - How many attempts to process the notification have failed.
+   * @param nextAttemptAt - When the next automatic retry is due, if any.
+   * @param lastError - Why the notification is kept.
+   */
+  private async insertNotificationForRetry(service: string, notification: LookupServiceNotification, attempts: number, nextAttemptAt: Date | undefined, lastError: string): Promise<void> {
+    const { type, txid, outputIndex, topic } = notification
+    try {
+      await this.storage.insertFailedNotification({
+        service,
+        type,
+        txid,
+        outputIndex,
+        topic,
+        ...(notification.type === 'outputAdded' ? { outputScript: notification.outputScript.toBinary() } : {}),
+        attempts,
+        nextAttemptAt,
+        lastError
+      })
+    } catch (e) {
+      this.logger.error('Failed to record a failed notification', { service, txid, outputIndex, topic, error: e })
+    }
+  }
+
+  /**
+   * Finds the lookup services with earlier notifications about the output of a notification still waiting to be retried.
+   * @param notification - The notification about the output.
+   * @returns The names of the lookup services.
+   */
+  private async findServicesWaitingForRetries(notification: LookupServiceNotification): Promise<Set<string>> {
+    const { txid, outputIndex, topic } = notification
+    try {
+      const pending = await this.storage.findFailedNotifications(undefined, { txid, outputIndex, topic })
+      return new Set(pending.map(n => n.service))
+    } catch (error) {
+      this.logger.error('Failed to find earlier failed notifications', { txid, outputIndex, topic, error })
+      return new Set()
+    }
+  }
+
+  /**
+   * Determines when the next automatic retry of a failed notification is due, with exponential backoff.
+   * @param attempts - How many attempts to process the notification have failed.
+   * @returns When the retry is due, or undefined once the retry policy's maximum number of attempts is reached
+   */
+  private nextNotificationAttemptAt(attempts: number): Date | undefined {
+    if (attempts >= this.notificationRetryPolicy.maxAttempts) {
+      return undefined
+    }
+    const delay = Math.min(
+      this.notificationRetryPolicy.initialDelay * 2 ** (attempts - 1),
+      this.notificationRetryPolicy.maxDelay
+    )
+    return new Date(Date.now() + delay)
+  }
+
   /**
    * Recursively updates the Merkle proof for the given output and its consumedBy outputs.
-   * If the output matches the source transaction ID, its Merkle proof is updated directly.
-   * Otherwise, the Merkle proof is updated for the corresponding input in each transaction.
+   * The proof is applied to the proven transaction wherever it appears in the BEEF of each output: as the output's own transaction,
+   * or as an ancestor reached through the inputs of a consuming transaction. Consuming transactions themselves remain unproven.
    *
    * @param output - The output to update with the new Merkle proof.
-   * @param proof - The Merkle proof to be applied to the output or its inputs.
-   * @param sourceTxid - The transaction ID of the source output whose Merkle proof is being updated.
+   * @param proof - The Merkle proof of the proven transaction.
+   * @param provenTXID - The transaction ID of the transaction the proof is for.
+   * @param visited - The outputs already updated, so that none is updated twice.
+   * @param updatedTopics - Collects the topics of the outputs whose BEEF was updated.
    */
-  private async updateMerkleProof(output: Output, proof: MerklePath, recursionPath: Array<{ txid: string, outputIndex: number }>): Promise<void> {
-    // Add current output to recursionPath
-    recursionPath.push({ txid: output.txid, outputIndex: output.outputIndex })
+  private async updateMerkleProof(output: Output, proof: MerklePath, provenTXID: string, visited = new Set<string>(), updatedTopics = new Set<string>()): Promise<void> {
+    const key = `${output.txid}.${output.outputIndex} ${output.topic}`
+    if (visited.has(key)) return
+    visited.add(key)
 
     const tx = Transaction.fromBEEF(output.beef)
 
-    // Handle the base case
-    if (output.txid === recursionPath[0].txid) {
-      tx.merklePath = proof
-    } else {
-      // Traverse inputs to update the Merkle proof according to the recursionPath
-      let currentInputs = tx.inputs
-
-      for (let i = recursionPath.length - 1; i >= 0; i--) {
-        const crumb = recursionPath[i]
-
-        for (const input of currentInputs) {
-          if (input.sourceTXID === crumb.txid && input.sourceOutputIndex === crumb.outputIndex) {
-            if (i === 0 && input.sourceTransaction !== undefined) {
-              input.sourceTransaction.merklePath = proof
-            } else if (input.sourceTransaction !== undefined) {
-              currentInputs = input.sourceTransaction.inputs
-              break
-            }
-          }
-        }
+    // Find the proven transaction within the BEEF, following the source transactions of the inputs
+    const seen = new Set<string>()
+    const apply = (t: Transaction): boolean => {
+      const txid = t.id('hex')
+      if (seen.has(txid)) return false
+      seen.add(txid)
+      if (txid === provenTXID) {
+        t.merklePath = proof
+        return true
       }
+      let applied = false
+      for (const input of t.inputs) {
+        if (input.sourceTransaction !== undefined && apply(input.sourceTransaction)) applied = true
+      }
+      return applied
     }
 
     // Update the output's BEEF in the storage DB
-    await this.storage.updateOutputBeef(output.txid, output.outputIndex, output.topic, tx.toBEEF())
+    if (apply(tx)) {
+      await this.storage.updateOutputBeef(output.txid, output.outputIndex, output.topic, tx.toBEEF())
+      updatedTopics.add(output.topic)
+    }
 
     // Recursively update the consumedBy outputs
     for (const consumingOutput of output.consumedBy) {
       const consumedOutputs = await this.storage.findOutputsForTransaction(consumingOutput.txid)
       for (const consumedOutput of consumedOutputs) {
-        await this.updateMerkleProof(consumedOutput, proof, [])
+        await this.updateMerkleProof(consumedOutput, proof, provenTXID, visited, updatedTopics)
       }
     }
   }
@@ -651,16 +1124,835 @@ export class Engine {
    *
    * @param txid - Transaction ID of the associated outputs to prune.
    * @param proof - Merkle proof containing the Merkle path and other relevant data to verify the transaction.
+   * @throws {ValidationError} When the chain tracker does not accept the proof, or no outputs of the transaction are stored
    */
   async handleNewMerkleProof(txid: string, proof: MerklePath): Promise<void> {
-    const outputs = await this.storage.findOutputsForTransaction(txid)
+    try {
+      // Proofs can come from anywhere, so only those for a block on the chain may replace what is stored
+      let root: string
+      try {
+        root = proof.computeRoot(txid)
+      } catch (error) {
+        throw new ValidationError(error instanceof Error ? error.message : String(error))
+      }
+      if (!(await this.chainTracker.isValidRootForHeight(root, proof.blockHeight))) {
+        throw new ValidationError(`The merkle proof for ${txid} is not valid for block ${proof.blockHeight}.`)
+      }
 
-    if (outputs == undefined || outputs.length === 0) {
-      throw new Error('Could not find matching transaction outputs for proof ingest!')
-    }
+      const outputs = await this.storage.findOutputsForTransaction(txid)
 
-    for (const output of outputs) {
-      await this.updateMerkleProof(output, proof, [])
+      if (outputs == undefined || outputs.length === 0) {
+        throw new ValidationError('Could not find matching transaction outputs for proof ingest!')
+      }
+
+      const visited = new Set<string>()
+      const updatedTopics = new Set<string>()
+      for (const output of outputs) {
+        await this.updateMerkleProof(output, proof, txid, visited, updatedTopics)
+      }
+      // Cached answers carry the BEEF of their outputs, which now has the new proof
+      this.invalidateLookupCache(updatedTopics)
+      // The transaction no longer awaits a new proof, if its previous one was for an orphaned block
+      await this.storage.markTransactionProven(txid)
+    } catch (error) {
+      this.instruments.merkleProofs.inc({ outcome: 'failed' })
+      throw error
+    }
+    this.instruments.merkleProofs.inc({ outcome: 'applied' })
+    this.events.emit('merkleProofApplied', { txid, proof })
+  }
+
+  /**
+   * Lists the transactions of stored outputs which are still awaiting a merkle proof.
+   * @returns {Promise<string[]>} The TXIDs of the unproven transactions
+   */
+  async listUnprovenTransactions(): Promise<string[]> {
+    const txids: string[] = []
+    for (; ;) {
+      const page = await this.storage.findUnprovenTransactions(txids[txids.length - 1], OUTPUT_PAGE_SIZE)
+      txids.push(...page)
+      if (page.length < OUTPUT_PAGE_SIZE) return txids
+    }
+  }
+
+  /**
+   * Fetches the merkle proofs of every transaction awaiting one with the proof fetcher, and applies those that are found with handleNewMerkleProof.
+   * Proofs which the chain tracker does not accept are ignored, and a failure for one transaction does not stop the others from being reconciled.
+   * @returns {Promise<string[]>} The TXIDs of the transactions which were proven
+   */
+  async reconcileProofs(): Promise<string[]> {
+    if (this.proofFetcher === undefined) {
+      throw new Error('No proof fetcher is configured for this engine.')
+    }
+    const proven: string[] = []
+    for (const txid of await this.listUnprovenTransactions()) {
+      try {
+        const proof = await this.proofFetcher.getMerkleProof(txid)
+        if (proof === undefined) continue
+        if (!(await this.chainTracker.isValidRootForHeight(proof.computeRoot(txid), proof.blockHeight))) {
+          this.logger.warn('Ignoring a merkle proof that is not valid for its block', { txid, blockHeight: proof.blockHeight })
+          continue
+        }
+        await this.handleNewMerkleProof(txid, proof)
+        proven.push(txid)
+      } catch (error) {
+        this.logger.error('Failed to reconcile the merkle proof for a transaction', { txid, error })
+      }
+    }
+    return proven
+  }
+
+  /**
+   * Starts reconciling proofs periodically in the background, with reconcileProofs.
+   * Each reconciliation starts once the interval has passed since the previous one finished, so they never overlap.
+   * @param {number} [interval] - Milliseconds to wait between reconciliations
+   */
+  startProofPolling(interval: number = 60000): void {
+    if (this.proofFetcher === undefined) {
+      throw new Error('No proof fetcher is configured for this engine.')
+    }
+    this.stopProofPolling()
+    const schedule = (): void => {
+      const timer = setTimeout(() => {
+        this.reconcileProofs()
+          .catch(error => this.logger.error('Failed to reconcile merkle proofs', { error }))
+          .finally(() => {
+            // Polling may have been stopped or restarted while reconciling
+            if (this.proofPollingTimer === timer) schedule()
+          })
+      }, interval)
+      this.proofPollingTimer = timer
+    }
+    schedule()
+  }
+
+  /**
+   * Stops reconciling proofs in the background. A reconciliation already in progress is allowed to finish.
+   */
+  stopProofPolling(): void {
+    if (this.proofPollingTimer !== undefined) {
+      clearTimeout(this.proofPollingTimer)
+      this.proofPollingTimer = undefined
+    }
+  }
+
+  /**
+   * Lists the transactions waiting to be delivered to peers, ordered by when their next delivery attempt is due.
+   * @returns {Promise<PendingPropagation[]>} The pending propagations
+   */
+  async listPendingPropagations(): Promise<PendingPropagation[]> {
+    return await this.storage.findPendingPropagations()
+  }
+
+  /**
+   * Retries delivering the transactions whose next delivery attempt is due.
+   */
+  async retryPropagations(): Promise<void> {
+    const propagations = await this.storage.findPendingPropagations(new Date())
+    await Promise.all(propagations.map(async propagation => await this.deliverPropagation(propagation)))
+  }
+
+  /**
+   * Attempts to deliver every transaction waiting to be delivered to a peer right away, whether or not its next delivery attempt is due.
+   * Deliveries which fail again are rescheduled as usual.
+   */
+  async flushPropagations(): Promise<void> {
+    const propagations = await this.storage.findPendingPropagations()
+    await Promise.all(propagations.map(async propagation => await this.deliverPropagation(propagation)))
+  }
+
+  /**
+   * Starts retrying failed deliveries to peers periodically in the background, with retryPropagations.
+   * Each round of retries starts once the interval has passed since the previous one finished, so they never overlap.
+   * @param {number} [interval] - Milliseconds to wait between rounds of retries
+   */
+  startPropagationRetries(interval: number = 10000): void {
+    this.stopPropagationRetries()
+    const schedule = (): void => {
+      const timer = setTimeout(() => {
+        this.retryPropagations()
+          .catch(error => this.logger.error('Failed to retry propagations', { error }))
+          .finally(() => {
+            // Retries may have been stopped or restarted in the meantime
+            if (this.propagationRetryTimer === timer) schedule()
+          })
+      }, interval)
+      this.propagationRetryTimer = timer
+    }
+    schedule()
+  }
+
+  /**
+   * Stops retrying failed deliveries to peers in the background. A round of retries already in progress is allowed to finish.
+   */
+  stopPropagationRetries(): void {
+    if (this.propagationRetryTimer !== undefined) {
+      clearTimeout(this.propagationRetryTimer)
+      this.propagationRetryTimer = undefined
+    }
+  }
+
+  /**
+   * Attempts to deliver a transaction to a peer, removing it from the outbox once delivered.
+   * A failed attempt is rescheduled with exponential backoff, until the retry policy's maximum number of attempts is reached and the delivery is given up on.
+   * @param propagation - The pending propagation to deliver.
+   */
+  private async deliverPropagation(propagation: PendingPropagation): Promise<void> {
+    try {
+      let error: string | undefined
+      try {
+        await this.transport.submit(propagation.domain, {
+          beef: propagation.beef,
+          topics: propagation.topics
+        })
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e)
+      }
+
+      if (error === undefined) {
+        this.instruments.propagations.inc({ domain: propagation.domain, outcome: 'sent' })
+        this.events.emit('propagationSent', { domain: propagation.domain, topics: propagation.topics })
+        await this.storage.deletePropagation(propagation.id)
+        return
+      }
+      const attempts = propagation.attempts + 1
+      const willRetry = attempts < this.propagationRetryPolicy.maxAttempts
+      this.instruments.propagations.inc({ domain: propagation.domain, outcome: 'failed' })
+      this.events.emit('propagationFailed', { domain: propagation.domain, topics: propagation.topics, attempts, error, willRetry })
+      if (!willRetry) {
+        this.logger.error('Giving up delivering a transaction to a peer', { domain: propagation.domain, topics: propagation.topics, attempts, error })
+        await this.storage.deletePropagation(propagation.id)
+        return
+      }
+      const delay = Math.min(
+        this.propagationRetryPolicy.initialDelay * 2 ** (attempts - 1),
+        this.propagationRetryPolicy.maxDelay
+      )
+      await this.storage.updatePropagation(propagation.id, attempts, new Date(Date.now() + delay), error)
+    } catch (error) {
+      this.logger.error('Failed to update a propagation', { domain: propagation.domain, error })
+    }
+  }
+
+  /**
+   * Lists the notifications that lookup services failed to process, in the order they failed.
+   * Those without a next attempt have exhausted their automatic retries, and wait to be replayed or discarded.
+   * @param {number} [limit] - The greatest number of notifications to list
+   * @returns {Promise<FailedNotification[]>} The failed notifications
+   */
+  async listFailedNotifications(limit?: number): Promise<FailedNotification[]> {
+    return await this.storage.findFailedNotifications(limit)
+  }
+
+  /**
+   * Retries the failed notifications whose next automatic retry is due, in the order they failed.
+   * A notification is held back while an earlier one about the same output for the same lookup service is still failing, so that each service processes them in order.
+   */
+  async retryFailedNotifications(): Promise<void> {
+    const now = Date.now()
+    const blocked = new Set<string>()
+    for (const notification of await this.storage.findFailedNotifications()) {
+      const key = `${notification.service} ${notification.topic} ${notification.txid}.${notification.outputIndex}`
+      if (blocked.has(key)) continue
+      if (notification.nextAttemptAt === undefined || notification.nextAttemptAt.getTime() > now) {
+        blocked.add(key)
+        continue
+      }
+      try {
+        await this.processFailedNotification(notification)
+      } catch {
+        blocked.add(key)
+      }
+    }
+  }
+
+  /**
+   * Attempts to process a failed notification again right away, whether or not its automatic retries have been exhausted.
+   * @param id - The ID of the failed notification.
+   * @throws The error from the lookup service, if it fails again. The failure is recorded, and further automatic retries are scheduled according to the retry policy.
+   */
+  async replayFailedNotification(id: number): Promise<void> {
+    const notification = await this.storage.findFailedNotification(id)
+    if (notification === null) {
+      throw new Error(`Failed notification not found: ${id}`)
+    }
+    await this.processFailedNotification(notification)
+  }
+
+  /**
+   * Discards a failed notification, so that it is never retried.
+   * @param id - The ID of the failed notification.
+   */
+  async discardFailedNotification(id: number): Promise<void> {
+    await this.storage.deleteFailedNotification(id)
+  }
+
+  /**
+   * Starts retrying failed notifications periodically in the background, with retryFailedNotifications.
+   * Each round of retries starts once the interval has passed since the previous one finished, so they never overlap.
+   * @param {number} [interval] - Milliseconds to wait between rounds of retries
+   */
+  startNotificationRetries(interval: number = 10000): void {
+    this.stopNotificationRetries()
+    const schedule = (): void => {
+      const timer = setTimeout(() => {
+        this.retryFailedNotifications()
+          .catch(error => this.logger.error('Failed to retry failed notifications', { error }))
+          .finally(() => {
+            // Retries may have been stopped or restarted in the meantime
+            if (this.notificationRetryTimer === timer) schedule()
+          })
+      }, interval)
+      this.notificationRetryTimer = timer
+    }
+    schedule()
+  }
+
+  /**
+   * Stops retrying failed notifications in the background. A round of retries already in progress is allowed to finish.
+   */
+  stopNotificationRetries(): void {
+    if (this.notificationRetryTimer !== undefined) {
+      clearTimeout(this.notificationRetryTimer)
+      this.notificationRetryTimer = undefined
+    }
+  }
+
+  /**
+   * Attempts to process a failed notification again, removing it once processed.
+   * Another failure is recorded, with the next automatic retry rescheduled with exponential backoff.
+   * @param notification - The failed notification to process.
+   * @throws The error from the lookup service, if it fails again.
+   */
+  private async processFailedNotification(notification: FailedNotification): Promise<void> {
+    const { id, service, type, txid, outputIndex, topic } = notification
+    try {
+      const lookupService = this.lookupServices[service]
+      if (lookupService === undefined || lookupService === null) throw new Error(`Lookup service not found for provider: ${service}`)
+      await deliverNotification(lookupService, type === 'outputAdded'
+        ? { type, txid, outputIndex, topic, outputScript: Script.fromBinary(notification.outputScript ?? []) }
+        : { type, txid, outputIndex, topic })
+    } catch (error) {
+      const attempts = notification.attempts + 1
+      const message = error instanceof Error ? error.message : String(error)
+      const nextAttemptAt = this.nextNotificationAttemptAt(attempts)
+      this.events.emit('lookupNotificationFailed', { service, type, txid, outputIndex, topic, attempts, error: message, willRetry: nextAttemptAt !== undefined })
+      if (nextAttemptAt === undefined) {
+        this.logger.error('Giving up retrying a notification automatically', { service, type, txid, outputIndex, topic, attempts, error })
+      }
+      await this.storage.updateFailedNotification(id, attempts, nextAttemptAt, message)
+      throw error
+    }
+    // The answers of the service may reflect the change now that it has been processed
+    this.lookupCache?.invalidate(service)
+    await this.storage.deleteFailedNotification(id)
+  }
+
+  /**
+   * Handles a chain reorganization, in which blocks containing transactions of stored outputs may have been orphaned.
+   *
+   * Every merkle proof into an orphaned block within the BEEF of a stored output is checked against the chain tracker.
+   * Transactions with outputs stored in a topic whose proofs are no longer valid are marked as awaiting a new proof, so that reconcileProofs fetches one once they are mined again, as nearly all of them are.
+   * Their outputs are kept, along with the old proofs in their BEEF, since a BEEF cannot carry a transaction without either a proof or its ancestors.
+   *
+   * Ancestors without outputs stored in any topic are never listed for reconciliation, so their proofs cannot be replaced.
+   * Outputs whose BEEF relies on an orphaned proof of such an ancestor are evicted, and lookup services are notified of their deletion.
+   *
+   * @param orphanedBlocks - The orphaned blocks, identified by height and optionally by merkle root. Without a merkle root, every proof at the height is checked.
+   * @returns The TXIDs of the transactions marked as awaiting a new proof, and the outputs that were evicted
+   */
+  async handleReorg(orphanedBlocks: Array<{ height: number, merkleRoot?: string }>): Promise<{
+    unproven: string[]
+    evicted: Array<{ txid: string, outputIndex: number, topic: string }>
+  }> {
+    // The chain tracker is only asked about each block once
+    const validRoots = new Map<string, boolean>()
+    const isOrphaned = async (tx: Transaction, proof: MerklePath): Promise<boolean> => {
+      const root = proof.computeRoot(tx.id('hex'))
+      if (!orphanedBlocks.some(block => block.height === proof.blockHeight && (block.merkleRoot === undefined || block.merkleRoot === root))) {
+        return false
+      }
+      const key = `${proof.blockHeight}:${root}`
+      let valid = validRoots.get(key)
+      if (valid === undefined) {
+        valid = await this.chainTracker.isValidRootForHeight(root, proof.blockHeight)
+        validRoots.set(key, valid)
+      }
+      return !valid
+    }
+
+    // Only transactions with stored outputs are listed for reconciliation, and so can be proven again
+    const storedTransactions = new Map<string, boolean>()
+    const isStored = async (txid: string): Promise<boolean> => {
+      let stored = storedTransactions.get(txid)
+      if (stored === undefined) {
+        stored = (await this.storage.findOutputsForTransaction(txid)).length > 0
+        storedTransactions.set(txid, stored)
+      }
+      return stored
+    }
+
+    // Find the transactions with orphaned proofs first, so that marking them and evicting outputs does not disturb the scan
+    const orphaned = new Set<string>()
+    const affectedTopics = new Set<string>()
+    const unprovable: Array<{ txid: string, outputIndex: number, topic: string }> = []
+    let after: Output | undefined
+    for (; ;) {
+      const outputs = await this.storage.findOutputs(undefined, undefined, after, OUTPUT_PAGE_SIZE)
+      for (const output of outputs) {
+        const orphanedInBEEF = new Set<string>()
+        await this.findOrphanedProofs(Transaction.fromBEEF(output.beef), isOrphaned, orphanedInBEEF)
+        if (orphanedInBEEF.size > 0) affectedTopics.add(output.topic)
+        let provable = true
+        for (const txid of orphanedInBEEF) {
+          if (await isStored(txid)) {
+            orphaned.add(txid)
+          } else {
+            provable = false
+          }
+        }
+        if (!provable) {
+          unprovable.push({ txid: output.txid, outputIndex: output.outputIndex, topic: output.topic })
+        }
+      }
+      if (outputs.length < OUTPUT_PAGE_SIZE) break
+      after = outputs[outputs.length - 1]
+    }
+
+    const unproven = Array.from(orphaned).sort()
+    for (const txid of unproven) {
+      await this.storage.markTransactionUnproven(txid)
+      this.logger.warn('Marked a transaction as awaiting a new merkle proof, as its block was orphaned', { txid })
+    }
+    // Cached answers carry the BEEF of their outputs, whose proofs are no longer for the main chain
+    this.invalidateLookupCache(affectedTopics)
+
+    const evicted: Array<{ txid: string, outputIndex: number, topic: string }> = []
+    for (const { txid, outputIndex, topic } of unprovable) {
+      const notifications: LookupServiceNotification[] = []
+      await this.storage.transaction(async storage => {
+        const output = await storage.findOutput(txid, outputIndex, topic)
+        if (output === null || output === undefined) return
+        await this.evictOutput(output, storage, notifications)
+      })
+      for (const notification of notifications) {
+        this.logger.warn('Evicted an output relying on a merkle proof for an orphaned block which cannot be proven again', { txid, outputIndex, topic })
+        evicted.push({ txid: notification.txid, outputIndex: notification.outputIndex, topic })
+        await this.notifyLookupServices(notification)
+      }
+    }
+    return { unproven, evicted }
+  }
+
+  /**
+   * Reprocesses the transactions stored for a topic through its current topic manager, such as after its rules have changed.
+   *
+   * Every transaction with an output stored in the topic is replayed in dependency order against empty topical state, the same way as when it was submitted.
+   * The outcome is compared with the stored state: newly admitted outputs are added, outputs that are no longer admitted or retained are evicted,
+   * and the spends and references between outputs are brought up to date, with lookup services notified of each change.
+   *
+   * Only transactions whose BEEF is still stored can be replayed, so spends by transactions without any output stored in the topic are not seen again.
+   * Outputs stored as spent therefore stay spent.
+   *
+   * @param topic - The topic to reindex.
+   * @returns The outputs that were admitted and evicted
+   * @throws {ValidationError} When the topic is not supported
+   */
+  async reindexTopic(topic: string): Promise<{
+    admitted: Array<{ txid: string, outputIndex: number }>
+    evicted: Array<{ txid: string, outputIndex: number }>
+  }> {
+    if (this.managers[topic] === undefined || this.managers[topic] === null) {
+      throw new ValidationError(`This server does not support this topic: ${topic}`)
+    }
+
+    // Collect the stored transactions of the topic
+    const transactions = new Map<string, Transaction>()
+    const beefs = new Map<string, number[]>()
+    let after: Output | undefined
+    for (; ;) {
+      const outputs = await this.storage.findOutputs(topic, undefined, after, OUTPUT_PAGE_SIZE)
+      for (const output of outputs) {
+        if (!transactions.has(output.txid)) {
+          transactions.set(output.txid, Transaction.fromBEEF(output.beef))
+          beefs.set(output.txid, output.beef)
+        }
+      }
+      if (outputs.length < OUTPUT_PAGE_SIZE) break
+      after = outputs[outputs.length - 1]
+    }
+
+    // Replay them against empty topical state
+    const replayed = new MemoryStorage()
+    for (const txid of orderByDependency(transactions)) {
+      await this.admitToTopic(transactions.get(txid) as Transaction, beefs.get(txid) as number[], topic, replayed, [])
+    }
+    const expected = await replayed.findOutputs(topic)
+    const expectedKeys = new Set(expected.map(o => `${o.txid}.${o.outputIndex}`))
+
+    const admitted: Array<{ txid: string, outputIndex: number }> = []
+    const evicted: Array<{ txid: string, outputIndex: number }> = []
+    const notifications: LookupServiceNotification[] = []
+    await this.storage.transaction(async storage => {
+      const sameReferences = (a: Array<{ txid: string, outputIndex: number }>, b: Array<{ txid: string, outputIndex: number }>): boolean =>
+        a.length === b.length && a.every(x => b.some(y => x.txid === y.txid && x.outputIndex === y.outputIndex))
+
+      for (const output of expected) {
+        const { txid, outputIndex } = output
+        const stored = await storage.findOutput(txid, outputIndex, topic)
+        if (stored === null || stored === undefined) {
+          await storage.insertOutput({ ...output, admittedAt: new Date() })
+          admitted.push({ txid, outputIndex })
+          notifications.push({ type: 'outputAdded', txid, outputIndex, outputScript: Script.fromBinary(output.outputScript), topic })
+          if (output.spent) {
+            notifications.push({ type: 'outputSpent', txid, outputIndex, topic })
+          }
+          continue
+        }
+        if (output.spent && !stored.spent) {
+          await storage.markUTXOAsSpent(txid, outputIndex, topic)
+          notifications.push({ type: 'outputSpent', txid, outputIndex, topic })
+        }
+        if (!sameReferences(output.consumedBy, stored.consumedBy)) {
+          await storage.updateConsumedBy(txid, outputIndex, topic, output.consumedBy)
+        }
+        if (!sameReferences(output.outputsConsumed, stored.outputsConsumed)) {
+          await storage.updateOutputsConsumed(txid, outputIndex, topic, output.outputsConsumed)
+        }
+      }
+
+      after = undefined
+      for (; ;) {
+        const outputs = await storage.findOutputs(topic, undefined, after, OUTPUT_PAGE_SIZE)
+        for (const { txid, outputIndex } of outputs) {
+          if (!expectedKeys.has(`${txid}.${outputIndex}`)) {
+            await storage.deleteOutput(txid, outputIndex, topic)
+            evicted.push({ txid, outputIndex })
+            notifications.push({ type: 'outputDeleted', txid, outputIndex, topic })
+          }
+        }
+        if (outputs.length < OUTPUT_PAGE_SIZE) break
+        after = outputs[outputs.length - 1]
+      }
+    })
+    for (const notification of notifications) {
+      await this.notifyLookupServices(notification)
+    }
+
+    const { version } = await this.managers[topic].getMetaData()
+    this.logger.info(`Reindexed the topic, admitting ${admitted.length} outputs and evicting ${evicted.length}`, { topic, version })
+    return { admitted, evicted }
+  }
+
+  /**
+   * Feeds the outputs already stored to a lookup service, such as one newly added to a running engine, through its outputAdded hook.
+   * Spent outputs, when included, are also passed through its outputSpent hook.
+   *
+   * Outputs are processed a batch at a time, ordered by topic, then TXID, then output index. Progress is reported after each batch with a checkpoint,
+   * which can be passed back to resume the backfill after an interruption. Outputs after the last checkpoint may be processed again when resuming,
+   * so the hooks should tolerate seeing an output more than once. A failure within a hook stops the backfill.
+   *
+   * @param name - The name of the lookup service to backfill.
+   * @param topics - The topics whose outputs are backfilled. Defaults to every topic with a topic manager. Topics the service does not subscribe to are skipped.
+   * @param {boolean} [includeSpent=false] - Whether spent outputs retained as history are also backfilled.
+   * @param resumeFrom - The checkpoint of an earlier backfill to resume from.
+   * @param onProgress - Called after each batch with the checkpoint of the last output processed, and how many outputs have been processed so far.
+   * @returns How many outputs were processed
+   */
+  async backfillLookupService(
+    name: string,
+    topics: string[] = Object.keys(this.managers),
+    includeSpent = false,
+    resumeFrom?: { topic: string, txid: string, outputIndex: number },
+    onProgress?: (checkpoint: { topic: string, txid: string, outputIndex: number }, processed: number) => Promise<void> | void
+  ): Promise<number> {
+    const lookupService = this.lookupServices[name]
+    if (lookupService === undefined || lookupService === null) throw new Error(`Lookup service not found for provider: ${name}`)
+
+    let processed = 0
+    for (const topic of topics.filter(topic => subscribesTo(lookupService, topic)).sort()) {
+      if (resumeFrom !== undefined && topic < resumeFrom.topic) continue
+      let after: { txid: string, outputIndex: number, topic: string } | undefined = resumeFrom?.topic === topic ? resumeFrom : undefined
+      for (; ;) {
+        const outputs = await this.storage.findOutputs(topic, includeSpent ? undefined : false, after, OUTPUT_PAGE_SIZE)
+        for (const { txid, outputIndex, outputScript, spent } of outputs) {
+          try {
+            await lookupService.outputAdded?.(txid, outputIndex, Script.fromBinary(outputScript), topic)
+            if (spent) {
+              await lookupService.outputSpent?.(txid, outputIndex, topic)
+            }
+          } catch (error) {
+            this.logger.error('Lookup service failed to process an output while being backfilled', { service: name, txid, outputIndex, topic, error })
+            throw error
+          }
+        }
+        processed += outputs.length
+        if (outputs.length > 0) {
+          // The answers of the service may reflect the outputs processed
+          this.lookupCache?.invalidate(name)
+          const last = outputs[outputs.length - 1]
+          after = { topic, txid: last.txid, outputIndex: last.outputIndex }
+          await onProgress?.(after, processed)
+        }
+        if (outputs.length < OUTPUT_PAGE_SIZE) break
+      }
+    }
+    this.logger.info(`Backfilled ${processed} outputs`, { service: name })
+    return processed
+  }
+
+  /**
+   * Scans storage for inconsistencies between outputs, and for outputs whose BEEF no longer parses or verifies, optionally repairing them.
+   *
+   * References to outputs that are not stored in the same topic are removed.
+   * Outputs with invalid BEEF are removed along with any stale outputs they consumed, the same way as when an output is not retained by its topic manager,
+   * and lookup services are notified of their deletion. Outputs with invalid BEEF that are still consumed by others are kept as their history, so those issues remain unrepaired.
+   * Spent outputs that nothing consumes are only reported, since topic managers may retain coins spent by transactions which admit no outputs.
+   *
+   * @param {boolean} [repair=false] - Whether to repair the issues found, rather than only reporting them.
+   * @returns The issues found, and whether each one was repaired
+   * @throws If the chain tracker fails while verifying a BEEF, in which case the scan is aborted before anything is repaired.
+   */
+  async verifyIntegrity(repair = false): Promise<IntegrityIssue[]> {
+    // Find the issues first, so that repairs do not disturb the scan
+    const issues: IntegrityIssue[] = []
+    let after: Output | undefined
+    for (; ;) {
+      const outputs = await this.storage.findOutputs(undefined, undefined, after, OUTPUT_PAGE_SIZE)
+      for (const output of outputs) {
+        const { txid, outputIndex, topic } = output
+        let consumers = 0
+        for (const reference of output.consumedBy) {
+          if (await this.storage.findOutput(reference.txid, reference.outputIndex, topic) === null) {
+            issues.push({ type: 'dangling-consumed-by', txid, outputIndex, topic, reference, repaired: false })
+          } else {
+            consumers++
+          }
+        }
+        for (const reference of output.outputsConsumed) {
+          if (await this.storage.findOutput(reference.txid, reference.outputIndex, topic) === null) {
+            issues.push({ type: 'dangling-outputs-consumed', txid, outputIndex, topic, reference, repaired: false })
+          }
+        }
+        if (output.spent && consumers === 0) {
+          issues.push({ type: 'spent-without-consumers', txid, outputIndex, topic, repaired: false })
+        }
+        let error: string | undefined
+        let tx: Transaction | undefined
+        try {
+          tx = Transaction.fromBEEF(output.beef)
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e)
+        }
+        if (tx !== undefined) {
+          try {
+            error = await findVerificationError(tx, this.chainTracker, 'The BEEF does not verify')
+          } catch (e) {
+            this.logger.error('The chain tracker failed while verifying integrity', { txid, outputIndex, topic, error: e })
+            throw e
+          }
+        }
+        if (error !== undefined) {
+          issues.push({ type: 'invalid-beef', txid, outputIndex, topic, error, repaired: false })
+        }
+      }
+      if (outputs.length < OUTPUT_PAGE_SIZE) break
+      after = outputs[outputs.length - 1]
+    }
+    if (issues.length > 0) {
+      this.logger.warn(`Found ${issues.length} integrity issues in storage`)
+    }
+    if (!repair) {
+      return issues
+    }
+
+    for (const issue of issues) {
+      // A retained coin looks the same as one whose consumers are missing, so it is left alone
+      if (issue.type === 'spent-without-consumers') continue
+      const notifications: LookupServiceNotification[] = []
+      await this.storage.transaction(async storage => {
+        // The output may already have been removed while repairing another issue
+        const output = await storage.findOutput(issue.txid, issue.outputIndex, issue.topic)
+        if (output === null || output === undefined) {
+          issue.repaired = true
+          return
+        }
+        const isReference = (o: { txid: string, outputIndex: number }): boolean => o.txid === issue.reference?.txid && o.outputIndex === issue.reference?.outputIndex
+        if (issue.type === 'dangling-consumed-by') {
+          await storage.updateConsumedBy(output.txid, output.outputIndex, output.topic, output.consumedBy.filter(o => !isReference(o)))
+        } else if (issue.type === 'dangling-outputs-consumed') {
+          await storage.updateOutputsConsumed(output.txid, output.outputIndex, output.topic, output.outputsConsumed.filter(o => !isReference(o)))
+        } else {
+          // Outputs with invalid BEEF still consumed by others are kept as their history
+          if (output.consumedBy.length > 0) return
+          await this.deleteUTXODeep(output, storage, notifications)
+        }
+        issue.repaired = true
+      })
+      for (const notification of notifications) {
+        await this.notifyLookupServices(notification)
+      }
+      if (issue.repaired) {
+        this.logger.info(`Repaired an integrity issue: ${issue.type}`, { txid: issue.txid, outputIndex: issue.outputIndex, topic: issue.topic })
+      }
+    }
+    return issues
+  }
+
+  /**
+   * Prunes the spent outputs which fall outside the retention policy of their topic.
+   *
+   * The policy of a topic is taken from the engine's retention policies, or else from its topic manager. Topics without a policy are not pruned.
+   * Pruned outputs are removed from the references of the outputs they consumed and those consuming them, and lookup services are notified of their deletion.
+   *
+   * @param {Date} [now] - The time that the ages of outputs are measured against
+   * @returns The outputs that were pruned
+   */
+  async pruneOutputs(now: Date = new Date()): Promise<Array<{ txid: string, outputIndex: number, topic: string }>> {
+    const pruned: Array<{ txid: string, outputIndex: number, topic: string }> = []
+    for (const topic of Object.keys(this.managers)) {
+      const policy = this.retentionPolicies[topic] ?? await this.managers[topic].getRetentionPolicy?.()
+      if (policy === undefined) continue
+
+      // Find the outputs to prune first, so that pruning does not disturb the scan
+      const outOfPolicy: Array<{ txid: string, outputIndex: number }> = []
+      let after: Output | undefined
+      for (; ;) {
+        const outputs = await this.storage.findOutputs(topic, true, after, OUTPUT_PAGE_SIZE)
+        for (const output of outputs) {
+          if (await this.isOutOfPolicy(output, policy, now)) {
+            outOfPolicy.push({ txid: output.txid, outputIndex: output.outputIndex })
+          }
+        }
+        if (outputs.length < OUTPUT_PAGE_SIZE) break
+        after = outputs[outputs.length - 1]
+      }
+
+      for (const { txid, outputIndex } of outOfPolicy) {
+        const notifications: LookupServiceNotification[] = []
+        await this.storage.transaction(async storage => {
+          const output = await storage.findOutput(txid, outputIndex, topic)
+          if (output === null || output === undefined) return
+          await this.evictOutput(output, storage, notifications)
+        })
+        for (const notification of notifications) {
+          pruned.push({ txid: notification.txid, outputIndex: notification.outputIndex, topic })
+          await this.notifyLookupServices(notification)
+        }
+      }
+    }
+    if (pruned.length > 0) {
+      this.logger.info(`Pruned ${pruned.length} outputs outside of their retention policies`)
+    }
+    return pruned
+  }
+
+  /**
+   * Starts pruning outputs periodically in the background, with pruneOutputs.
+   * Each pruning starts once the interval has passed since the previous one finished, so they never overlap.
+   * @param {number} [interval] - Milliseconds to wait between prunings
+   */
+  startPruning(interval: number = 3600000): void {
+    this.stopPruning()
+    const schedule = (): void => {
+      const timer = setTimeout(() => {
+        this.pruneOutputs()
+          .catch(error => this.logger.error('Failed to prune outputs', { error }))
+          .finally(() => {
+            // Pruning may have been stopped or restarted in the meantime
+            if (this.pruningTimer === timer) schedule()
+          })
+      }, interval)
+      this.pruningTimer = timer
+    }
+    schedule()
+  }
+
+  /**
+   * Stops pruning outputs in the background. A pruning already in progress is allowed to finish.
+   */
+  stopPruning(): void {
+    if (this.pruningTimer !== undefined) {
+      clearTimeout(this.pruningTimer)
+      this.pruningTimer = undefined
+    }
+  }
+
+  /**
+   * Removes an output from its topic, along with the references to it from the outputs it consumed and those consuming it.
+   * @param output - The output to remove.
+   * @param storage - The storage to remove it from, typically the unit of work the removal is part of.
+   * @param notifications - Collects the lookup service notifications to send once the removal has been committed.
+   */
+  private async evictOutput(output: Output, storage: Storage, notifications: LookupServiceNotification[]): Promise<void> {
+    const { txid, outputIndex, topic } = output
+    const isEvicted = (o: { txid: string, outputIndex: number }): boolean => o.txid === txid && o.outputIndex === outputIndex
+
+    await storage.deleteOutput(txid, outputIndex, topic)
+    for (const reference of output.consumedBy) {
+      const consumer = await storage.findOutput(reference.txid, reference.outputIndex, topic)
+      if (consumer !== null && consumer !== undefined) {
+        await storage.updateOutputsConsumed(consumer.txid, consumer.outputIndex, topic, consumer.outputsConsumed.filter(o => !isEvicted(o)))
+      }
+    }
+    for (const reference of output.outputsConsumed) {
+      const consumed = await storage.findOutput(reference.txid, reference.outputIndex, topic)
+      if (consumed !== null && consumed !== undefined) {
+        await storage.updateConsumedBy(consumed.txid, consumed.outputIndex, topic, consumed.consumedBy.filter(o => !isEvicted(o)))
+      }
+    }
+    notifications.push({ type: 'outputDeleted', txid, outputIndex, topic })
+  }
+
+  /**
+   * Determines whether a spent output falls outside a retention policy.
+   * @param output - The spent output.
+   * @param policy - The retention policy of its topic.
+   * @param now - The time that the age of the output is measured against.
+   * @returns Whether the output should be pruned.
+   */
+  private async isOutOfPolicy(output: Output, policy: RetentionPolicy, now: Date): Promise<boolean> {
+    if (policy.keepOnlyUnspent) {
+      return true
+    }
+    if (policy.maxAge !== undefined && output.admittedAt !== undefined && now.getTime() - output.admittedAt.getTime() > policy.maxAge) {
+      return true
+    }
+    if (policy.maxHistoryDepth !== undefined) {
+      // Search the descendants, one spend at a time, for an unspent output within the depth
+      let frontier = [output]
+      for (let depth = 1; depth <= policy.maxHistoryDepth && frontier.length > 0; depth++) {
+        const consumers: Output[] = []
+        for (const o of frontier) {
+          for (const reference of o.consumedBy) {
+            const consumer = await this.storage.findOutput(reference.txid, reference.outputIndex, output.topic)
+            if (consumer === null || consumer === undefined) continue
+            if (!consumer.spent) return false
+            consumers.push(consumer)
+          }
+        }
+        frontier = consumers
+      }
+      return true
+    }
+    return false
+  }
+
+  /**
+   * Finds the transactions, among a transaction and its ancestors, whose merkle proofs prove inclusion in an orphaned block.
+   * @param tx - The transaction, with its ancestors attached as source transactions.
+   * @param isOrphaned - Determines whether a proof of a transaction proves inclusion in an orphaned block.
+   * @param orphaned - Collects the TXIDs of the transactions found.
+   */
+  private async findOrphanedProofs(tx: Transaction, isOrphaned: (tx: Transaction, proof: MerklePath) => Promise<boolean>, orphaned: Set<string>): Promise<void> {
+    if (tx.merklePath !== undefined) {
+      if (await isOrphaned(tx, tx.merklePath)) orphaned.add(tx.id('hex'))
+      return
+    }
+    for (const input of tx.inputs) {
+      if (input.sourceTransaction !== undefined) {
+        await this.findOrphanedProofs(input.sourceTransaction, isOrphaned, orphaned)
+      }
     }
   }
 
@@ -702,3 +1994,240 @@ export class Engine {
     return documentation !== undefined ? documentation : 'No documentation found!'
   }
 }
+
+/**
+ * Verifies a transaction, telling failures of the chain tracker apart from the transaction itself failing to verify,
+ * such as through an invalid unlocking script or a missing source transaction.
+ * @param tx - The transaction to verify, along with its ancestors.
+ * @param chainTracker - The chain tracker to verify merkle proofs with.
+ * @param invalidMessage - Why the transaction does not verify, when verification simply fails.
+ * @returns Why the transaction does not verify, or undefined if it does
+ * @throws The error from the chain tracker, if it fails
+ */
+const findVerificationError = async (tx: Transaction, chainTracker: ChainTracker, invalidMessage: string): Promise<string | undefined> => {
+  let chainTrackerError: unknown
+  const trackingChainTracker: ChainTracker = {
+    isValidRootForHeight: async (root, height) => {
+      try {
+        return await chainTracker.isValidRootForHeight(root, height)
+      } catch (e) {
+        chainTrackerError = e
+        throw e
+      }
+    }
+  }
+  try {
+    return (await tx.verify(trackingChainTracker)) ? undefined : invalidMessage
+  } catch (e) {
+    if (chainTrackerError !== undefined) throw chainTrackerError
+    return e instanceof Error ? e.message : String(e)
+  }
+}
+
+/**
+ * Passes a notification to the hook of a lookup service for its type.
+ */
+const deliverNotification = async (lookupService: LookupService, notification: LookupServiceNotification): Promise<void> => {
+  if (notification.type === 'outputAdded') {
+    await lookupService.outputAdded?.(notification.txid, notification.outputIndex, notification.outputScript, notification.topic)
+  } else if (notification.type === 'outputSpent') {
+    await lookupService.outputSpent?.(notification.txid, notification.outputIndex, notification.topic)
+  } else {
+    await lookupService.outputDeleted?.(notification.txid, notification.outputIndex, notification.topic)
+  }
+}
+
+/**
+ * Determines whether a lookup service subscribes to a topic. Services which do not declare their topics subscribe to every topic.
+ */
+const subscribesTo = (lookupService: LookupService, topic: string): boolean => {
+  if (lookupService.topics === undefined) return true
+  if (typeof lookupService.topics === 'function') return lookupService.topics(topic)
+  return lookupService.topics.includes(topic)
+}
+
+/**
+ * Orders transactions so that each one comes after every transaction among them that it spends from.
+ * @param transactions - The transactions to order, keyed by TXID.
+ * @returns The TXIDs of the transactions, in dependency order
+ */
+const orderByDependency = (transactions: Map<string, Transaction>): string[] => {
+  const ordered: string[] = []
+  const visited = new Set<string>()
+  const visiting = new Set<string>()
+  const visit = (txid: string): void => {
+    if (visited.has(txid)) return
+    if (visiting.has(txid)) throw new Error(`Transaction ${txid} depends on itself within the batch.`)
+    visiting.add(txid)
+    for (const input of (transactions.get(txid) as Transaction).inputs) {
+      const sourceTXID = input.sourceTXID ?? input.sourceTransaction?.id('hex')
+      if (sourceTXID !== undefined && transactions.has(sourceTXID)) visit(sourceTXID)
+    }
+    visiting.delete(txid)
+    visited.add(txid)
+    ordered.push(txid)
+  }
+  for (const txid of transactions.keys()) {
+    visit(txid)
+  }
+  return ordered
+}
+
+// The first four bytes of a BEEF, read as a little-endian number, for each version of the format
+const BEEF_V1 = 4022206465
+const BEEF_V2 = 4022206466
+
+/**
+ * Reads every transaction within a BEEF, in the order they appear, with their merkle proofs and source transactions attached.
+ * Unlike Transaction.fromBEEF, this also returns the transactions which the subject of the BEEF does not depend on, and reads version 2 BEEF as well.
+ */
+const readBEEFTransactions = (beef: number[]): Transaction[] => {
+  const reader = new Utils.Reader(beef)
+  const version = reader.readUInt32LE()
+  if (version !== BEEF_V1 && version !== BEEF_V2) {
+    throw new Error(`Invalid BEEF version. Expected ${BEEF_V1} or ${BEEF_V2}, received ${version}.`)
+  }
+  const BUMPs: MerklePath[] = []
+  const numberOfBUMPs = reader.readVarIntNum()
+  for (let i = 0; i < numberOfBUMPs; i++) {
+    BUMPs.push(MerklePath.fromReader(reader))
+  }
+
+  const transactions = new Map<string, Transaction>()
+  const numberOfTransactions = reader.readVarIntNum()
+  for (let i = 0; i < numberOfTransactions; i++) {
+    // Version 2 gives the format and merkle path of each transaction before it, rather than after it
+    let pathIndex: number | undefined
+    let tx: Transaction
+    if (version === BEEF_V2) {
+      const format = reader.readUInt8()
+      if (format !== 0 && format !== 1) {
+        throw new Error(`Unsupported transaction format in BEEF: ${format}`)
+      }
+      if (format === 1) pathIndex = reader.readVarIntNum()
+      tx = readTransaction(reader)
+    } else {
+      tx = readTransaction(reader)
+      if (reader.readUInt8() !== 0) pathIndex = reader.readVarIntNum()
+    }
+    if (pathIndex !== undefined) {
+      const path = BUMPs[pathIndex]
+      if (path === undefined) {
+        throw new Error('Invalid merkle path index found in BEEF!')
+      }
+      tx.merklePath = path
+    } else {
+      // BEEF lists the transactions an unproven transaction depends on before it
+      for (const input of tx.inputs) {
+        const sourceTransaction = transactions.get(input.sourceTXID as string)
+        if (sourceTransaction === undefined) {
+          throw new Error(`Reference to unknown TXID in BEEF: ${String(input.sourceTXID)}`)
+        }
+        input.sourceTransaction = sourceTransaction
+      }
+    }
+    transactions.set(tx.id('hex'), tx)
+  }
+  if (reader.pos > beef.length) {
+    throw new Error('The BEEF ended unexpectedly.')
+  }
+  return Array.from(transactions.values())
+}
+
+/**
+ * Reads a transaction from its binary format, leaving the reader just after it.
+ * Transactions within a BEEF are not prefixed by their length, so they are read from the same reader as the rest of the BEEF.
+ */
+const readTransaction = (reader: Utils.Reader): Transaction => {
+  const readScript = (): number[] => {
+    const script = reader.read(reader.readVarIntNum())
+    // The reader does not stop at the end of its data, so counts read from past the end are caught here
+    if (reader.pos > reader.bin.length) {
+      throw new Error('The BEEF ended unexpectedly.')
+    }
+    return script
+  }
+  const version = reader.readUInt32LE()
+  const inputs: TransactionInput[] = []
+  const numberOfInputs = reader.readVarIntNum()
+  for (let i = 0; i < numberOfInputs; i++) {
+    const sourceTXID = Utils.toHex(reader.readReverse(32))
+    const sourceOutputIndex = reader.readUInt32LE()
+    const unlockingScript = UnlockingScript.fromBinary(readScript())
+    inputs.push({ sourceTXID, sourceOutputIndex, unlockingScript, sequence: reader.readUInt32LE() })
+  }
+  const outputs: TransactionOutput[] = []
+  const numberOfOutputs = reader.readVarIntNum()
+  for (let i = 0; i < numberOfOutputs; i++) {
+    const satoshis = reader.readUInt64LEBn().toNumber()
+    outputs.push({ satoshis, lockingScript: LockingScript.fromBinary(readScript()) })
+  }
+  return new Transaction(version, inputs, outputs, reader.readUInt32LE())
+}
+
+/**
+ * Merges the BEEFs of the outputs in an output list into a single version 2 BEEF, in which each transaction and merkle proof appears once.
+ * Merkle proofs of transactions in the same block are combined into one.
+ */
+const mergeOutputList = (answer: LookupAnswer & { type: 'output-list' }): LookupAnswer => {
+  const BUMPs: MerklePath[] = []
+  const transactions = new Map<string, { tx: Transaction, pathIndex?: number }>()
+
+  // Adds a transaction after the transactions it depends on, as BEEF requires
+  const addTransaction = (tx: Transaction): void => {
+    const txid = tx.id('hex')
+    if (transactions.has(txid)) {
+      return
+    }
+    if (tx.merklePath === undefined) {
+      for (const input of tx.inputs) {
+        if (input.sourceTransaction !== undefined) {
+          addTransaction(input.sourceTransaction)
+        }
+      }
+      transactions.set(txid, { tx })
+      return
+    }
+    const root = tx.merklePath.computeRoot()
+    let pathIndex = BUMPs.findIndex(b => b.blockHeight === tx.merklePath?.blockHeight && b.computeRoot() === root)
+    if (pathIndex === -1) {
+      pathIndex = BUMPs.length
+      BUMPs.push(MerklePath.fromBinary(tx.merklePath.toBinary()))
+    } else {
+      BUMPs[pathIndex].combine(tx.merklePath)
+    }
+    transactions.set(txid, { tx, pathIndex })
+  }
+
+  const outputs: Array<{ txid: string, outputIndex: number }> = []
+  for (const output of answer.outputs) {
+    const beefTransactions = readBEEFTransactions(output.beef)
+    for (const tx of beefTransactions) {
+      addTransaction(tx)
+    }
+    outputs.push({ txid: beefTransactions[beefTransactions.length - 1].id('hex'), outputIndex: output.outputIndex })
+  }
+
+  const writer = new Utils.Writer()
+  writer.writeUInt32LE(BEEF_V2)
+  writer.writeVarIntNum(BUMPs.length)
+  for (const BUMP of BUMPs) {
+    writer.write(BUMP.toBinary())
+  }
+  writer.writeVarIntNum(transactions.size)
+  for (const { tx, pathIndex } of transactions.values()) {
+    if (pathIndex !== undefined) {
+      writer.writeUInt8(1)
+      writer.writeVarIntNum(pathIndex)
+    } else {
+      writer.writeUInt8(0)
+    }
+    writer.write(tx.toBinary())
+  }
+
+  const merged: LookupAnswer = { type: 'merged-beef', beef: writer.toArray(), outputs }
+  if (answer.cursor !== undefined) {
+    merged.cursor = answer.cursor
+  }
+  return merged
+}
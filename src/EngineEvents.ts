@@ -0,0 +1,30 @@
+import { MerklePath } from '@bsv/sdk'
+import { TaggedBEEF } from './TaggedBEEF.js'
+
+/**
+ * Engine Events
+ *
+ * @description
+ * The events emitted by the Overlay Services Engine, and the payload of each one.
+ * Changes to topical state are only emitted once they have been committed to storage.
+ */
+export type EngineEvents = {
+  /** A transaction was submitted for processing */
+  submitReceived: { taggedBEEF: TaggedBEEF }
+  /** A submitted transaction was rejected before being processed, because of an unsupported topic or invalid SPV information */
+  submitRejected: { taggedBEEF: TaggedBEEF, error: Error }
+  /** An output was admitted into a topic */
+  outputAdmitted: { txid: string, outputIndex: number, topic: string }
+  /** An output within a topic was spent */
+  outputSpent: { txid: string, outputIndex: number, topic: string }
+  /** An output was removed from a topic */
+  outputEvicted: { txid: string, outputIndex: number, topic: string }
+  /** A transaction was delivered to a peer */
+  propagationSent: { domain: string, topics: string[] }
+  /** A transaction could not be delivered to a peer */
+  propagationFailed: { domain: string, topics: string[], attempts: number, error: string, willRetry: boolean }
+  /** A lookup service failed to process a notification about an output */
+  lookupNotificationFailed: { service: string, type: 'outputAdded' | 'outputSpent' | 'outputDeleted', txid: string, outputIndex: number, topic: string, attempts: number, error: string, willRetry: boolean }
+  /** A merkle proof was applied to the outputs of a transaction */
+  merkleProofApplied: { txid: string, proof: MerklePath }
+}
@@ -0,0 +1,25 @@
+/**
+ * Integrity Issue
+ *
+ * @description
+ * An inconsistency found in storage by the Overlay Services Engine when verifying its integrity, concerning an output within a topic.
+ * - `dangling-consumed-by`: the output lists a consuming output which is not stored in the topic
+ * - `dangling-outputs-consumed`: the output lists a consumed output which is not stored in the topic
+ * - `spent-without-consumers`: the output is spent, but no output stored in the topic consumes it. This is expected of coins retained by a topic manager when spent by a transaction which admitted no outputs, so it is never repaired.
+ * - `invalid-beef`: the BEEF of the output no longer parses, or no longer verifies against the chain. Failures of the chain tracker itself are not reported as issues.
+ */
+export type IntegrityIssue = {
+  type: 'dangling-consumed-by' | 'dangling-outputs-consumed' | 'spent-without-consumers' | 'invalid-beef'
+  /** TXID of the output */
+  txid: string
+  /** Index of the output */
+  outputIndex: number
+  /** Topic in which the output is stored */
+  topic: string
+  /** The output referred to, for dangling references */
+  reference?: { txid: string, outputIndex: number }
+  /** Why the BEEF is invalid, for invalid BEEF */
+  error?: string
+  /** Whether the issue was repaired */
+  repaired: boolean
+}
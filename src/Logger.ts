@@ -0,0 +1,57 @@
+/**
+ * The severity of a log entry, from least to most severe.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured details attached to a log entry, identifying what it concerns.
+ */
+export type LogContext = {
+  /** TXID of the transaction concerned */
+  txid?: string
+  /** Output index of the output concerned */
+  outputIndex?: number
+  /** The topic concerned */
+  topic?: string
+  /** The lookup service concerned */
+  service?: string
+  /** The domain of the peer concerned */
+  domain?: string
+  /** The error being reported */
+  error?: unknown
+  [key: string]: unknown
+}
+
+/**
+ * Interface for reporting what happens within the Overlay Services Engine and its storage, including failures which do not stop processing.
+ * Implement it to route log entries to any logging system.
+ */
+export interface Logger {
+  /**
+   * Logs details which are only useful while debugging.
+   * @param message - Describes what happened.
+   * @param context - Structured details about what the entry concerns.
+   */
+  debug: (message: string, context?: LogContext) => void
+
+  /**
+   * Logs a noteworthy event during normal operation.
+   * @param message - Describes what happened.
+   * @param context - Structured details about what the entry concerns.
+   */
+  info: (message: string, context?: LogContext) => void
+
+  /**
+   * Logs an unexpected situation which processing recovered from.
+   * @param message - Describes what happened.
+   * @param context - Structured details about what the entry concerns.
+   */
+  warn: (message: string, context?: LogContext) => void
+
+  /**
+   * Logs a failure.
+   * @param message - Describes what happened.
+   * @param context - Structured details about what the entry concerns.
+   */
+  error: (message: string, context?: LogContext) => void
+}
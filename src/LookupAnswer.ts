@@ -8,6 +8,25 @@ export type LookupAnswer = {
     beef: number[]
     outputIndex: number
   }>
+  /**
+   * Present when there are further outputs, to be passed back with the Lookup Question to get the next page.
+   */
+  cursor?: string
+} | {
+  /**
+   * The outputs share a single version 2 BEEF (BRC-96, extending BRC-62), in which each transaction and merkle proof appears only once.
+   * Unlike the BEEF of a single output, its last transaction is not necessarily the only subject, so every transaction within it should be read.
+   */
+  type: 'merged-beef'
+  beef: number[]
+  outputs: Array<{
+    txid: string
+    outputIndex: number
+  }>
+  /**
+   * Present when there are further outputs, to be passed back with the Lookup Question to get the next page.
+   */
+  cursor?: string
 } | {
   type: 'freeform'
   result: unknown
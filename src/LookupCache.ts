@@ -0,0 +1,127 @@
+import type { LookupQuestion } from './LookupQuestion.js'
+import type { LookupAnswer } from './LookupAnswer.js'
+
+/**
+ * Caches the answers to lookup questions, so that popular questions are not re-run against their lookup service and re-hydrated every time.
+ *
+ * Answers are keyed by the service, the query, the page asked for and the format of the answer. The Engine drops the answers of a lookup service whenever
+ * that service is notified of an output being added, spent or deleted, so a cached answer never outlives a change it could reflect.
+ * Answers also expire after a time to live, and the least recently used answers are dropped once the cache is full.
+ */
+export class LookupCache {
+  private readonly entries = new Map<string, { service: string, answer: LookupAnswer, expiresAt: number }>()
+  private readonly invalidations = new Map<string, number>()
+  private clears = 0
+
+  /**
+   * Creates a new lookup cache
+   * @param {number} [ttl] - how long an answer is kept, in milliseconds. Defaults to one minute.
+   * @param {number} [maxEntries] - the most answers kept at once. Defaults to 1000.
+   * @param {() => number} [now] - the clock which answers expire against, in milliseconds
+   */
+  constructor(
+    public ttl: number = 60000,
+    public maxEntries: number = 1000,
+    public now: () => number = Date.now
+  ) { }
+
+  /**
+   * Finds the cached answer to a question.
+   * @returns {LookupAnswer | undefined} The answer, or undefined if it is not cached or has expired
+   */
+  get(question: LookupQuestion): LookupAnswer | undefined {
+    const key = cacheKey(question)
+    const entry = this.entries.get(key)
+    if (entry === undefined) {
+      return undefined
+    }
+    this.entries.delete(key)
+    if (entry.expiresAt <= this.now()) {
+      return undefined
+    }
+    // Re-inserting the entry marks it as the most recently used
+    this.entries.set(key, entry)
+    return entry.answer
+  }
+
+  /**
+   * The generation of the answers from a lookup service, which changes whenever they are invalidated or cleared.
+   * Taken before answering a question, it lets set tell whether the service was notified of a change while the answer was being prepared.
+   */
+  generation(service: string): number {
+    return this.clears + (this.invalidations.get(service) ?? 0)
+  }
+
+  /**
+   * Caches the answer to a question, dropping the least recently used answers if the cache is full.
+   * @param {number} [generation] - the generation of the service's answers taken before answering. The answer is not cached if it has changed since.
+   */
+  set(question: LookupQuestion, answer: LookupAnswer, generation?: number): void {
+    if (this.maxEntries < 1) {
+      return
+    }
+    if (generation !== undefined && generation !== this.generation(question.service)) {
+      return
+    }
+    const key = cacheKey(question)
+    this.entries.delete(key)
+    this.entries.set(key, { service: question.service, answer, expiresAt: this.now() + this.ttl })
+    for (const oldestKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  /**
+   * Drops every cached answer from a lookup service.
+   */
+  invalidate(service: string): void {
+    this.invalidations.set(service, (this.invalidations.get(service) ?? 0) + 1)
+    for (const [key, entry] of this.entries) {
+      if (entry.service === service) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  /**
+   * Drops every cached answer.
+   */
+  clear(): void {
+    this.clears++
+    this.entries.clear()
+  }
+
+  /**
+   * The number of answers currently cached, including any which have expired but not yet been dropped.
+   */
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+/**
+ * Identifies a question by its service, its query, the page asked for and the format of the answer.
+ * Queries are normalized, so that the order of their keys does not matter.
+ */
+const cacheKey = (question: LookupQuestion): string => JSON.stringify([
+  question.service,
+  normalize(question.query),
+  question.limit ?? null,
+  question.cursor ?? null,
+  question.format ?? 'output-list'
+])
+
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(normalize)
+  }
+  if (value !== null && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {}
+    for (const key of Object.keys(value).sort()) {
+      normalized[key] = normalize((value as Record<string, unknown>)[key])
+    }
+    return normalized
+  }
+  return value
+}
@@ -24,3 +24,15 @@ export type LookupFormula = Array<{
    */
   history?: ((beef: number[], outputIndex: number, currentDepth: number) => Promise<boolean>) | number
 }>
+
+/**
+ * A page of a Lookup Formula, returned by Lookup Services which page through their results themselves according to the `limit` and `cursor` of the Lookup Question.
+ */
+export type LookupFormulaPage = {
+  type: 'formula'
+  formula: LookupFormula
+  /**
+   * Present when there are further results, and returned to the client with the Lookup Answer so that it can ask for the next page.
+   */
+  cursor?: string
+}
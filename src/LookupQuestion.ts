@@ -12,4 +12,22 @@ export type LookupQuestion = {
    * Its type depends on that prescribed by the Lookup Service employed.
    */
   query: unknown
+
+  /**
+   * The most outputs to return in the Lookup Answer, when it is an output list.
+   * If not provided, every responsive output is returned.
+   */
+  limit?: number
+
+  /**
+   * The cursor returned with a previous page of the answer, to continue from where that page ended.
+   */
+  cursor?: string
+
+  /**
+   * How outputs are returned in the Lookup Answer.
+   * - `output-list`, the default, returns each output with its own BEEF.
+   * - `merged-beef` returns a single BEEF holding every transaction needed by the outputs once, along with references to the outputs within it.
+   */
+  format?: 'output-list' | 'merged-beef'
 }
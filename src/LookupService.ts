@@ -1,5 +1,5 @@
 import { LookupQuestion } from './LookupQuestion.js'
-import { LookupFormula } from './LookupFormula.js'
+import { LookupFormula, LookupFormulaPage } from './LookupFormula.js'
 import { LookupAnswer } from './LookupAnswer.js'
 import { Script } from '@bsv/sdk'
 
@@ -8,6 +8,12 @@ import { Script } from '@bsv/sdk'
  */
 export interface LookupService {
 
+  /**
+   * The topics this lookup service is notified about, either as a list of topic names or as a predicate over topic names.
+   * When omitted, the service is notified about outputs in every topic, and should filter them itself.
+   */
+  topics?: string[] | ((topic: string) => boolean)
+
   /**
    * Process the event when a new UTXO is let into a topic
    * @param txid - The transaction ID (TXID) of the transaction where the new UTXO resides.
@@ -42,10 +48,13 @@ export interface LookupService {
 
   /**
    * Queries the lookup service for information
+   *
+   * When a Lookup Formula is returned, the Engine pages through it according to the limit and cursor of the question.
+   * Services able to page through their results more efficiently can instead return a Lookup Formula Page, along with their own cursor.
    * @param question — The question to be answered by the lookup service
    * @returns — The Lookup Answer or Lookup Formula used to answer the question
    */
-  lookup: (question: LookupQuestion) => Promise<LookupAnswer | LookupFormula>
+  lookup: (question: LookupQuestion) => Promise<LookupAnswer | LookupFormula | LookupFormulaPage>
 
   /**
    * Returns a Markdown-formatted documentation string for the lookup service.
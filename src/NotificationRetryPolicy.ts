@@ -0,0 +1,15 @@
+/**
+ * Notification Retry Policy
+ *
+ * @description
+ * Determines how notifications that lookup services fail to process are retried. The delay before each retry doubles after every failed attempt, up to the maximum delay.
+ * Once the maximum number of attempts is reached, the notification is kept without further automatic retries, until it is replayed or discarded.
+ */
+export type NotificationRetryPolicy = {
+  /** How many attempts are made to process a notification before automatic retries stop */
+  maxAttempts: number
+  /** Milliseconds to wait before retrying after the first failed attempt */
+  initialDelay: number
+  /** The longest number of milliseconds to wait before any retry */
+  maxDelay: number
+}
@@ -26,4 +26,6 @@ export type Output = {
     txid: string
     outputIndex: number
   }>
+  /** When the output was admitted into its topic, if known */
+  admittedAt?: Date
 }
@@ -0,0 +1,16 @@
+import { Output } from './Output.js'
+
+/**
+ * Output Descendants
+ *
+ * @description
+ * An output retained within a topic, along with the outputs of the same topic which were created by spending it, and in turn their descendants.
+ */
+export type OutputDescendants = {
+  /** The output */
+  output: Output
+  /** How many spends separate the output from the one the traversal started at */
+  depth: number
+  /** The descendants of each output created by spending this one */
+  descendants: OutputDescendants[]
+}
@@ -0,0 +1,15 @@
+import { TaggedBEEF } from './TaggedBEEF.js'
+
+/**
+ * Interface for delivering transactions to other overlay nodes, used when propagating submitted transactions to peers.
+ */
+export interface OverlayTransport {
+  /**
+   * Submits a transaction to the overlay node hosted at a domain.
+   * @param domain - The domain of the overlay node, as advertised with SHIP.
+   * @param taggedBEEF - The transaction to submit, along with the topics to submit it to.
+   * @returns A promise that resolves once the overlay node has accepted the submission.
+   * @throws When the transaction could not be delivered to the overlay node.
+   */
+  submit: (domain: string, taggedBEEF: TaggedBEEF) => Promise<void>
+}
@@ -0,0 +1,13 @@
+import { MerklePath } from '@bsv/sdk'
+
+/**
+ * Interface for fetching the merkle proofs of transactions once they have been mined, for example from a block explorer or transaction processor.
+ */
+export interface ProofFetcher {
+  /**
+   * Fetches the merkle proof of a transaction.
+   * @param txid - The TXID of the transaction to fetch the proof for.
+   * @returns A promise that resolves to the merkle proof, or to undefined when the transaction has not been mined yet.
+   */
+  getMerkleProof: (txid: string) => Promise<MerklePath | undefined>
+}
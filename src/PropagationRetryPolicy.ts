@@ -0,0 +1,14 @@
+/**
+ * Propagation Retry Policy
+ *
+ * @description
+ * Determines how failed deliveries of transactions to peers are retried. The delay before each retry doubles after every failed attempt, up to the maximum delay.
+ */
+export type PropagationRetryPolicy = {
+  /** How many delivery attempts are made before the delivery is given up on */
+  maxAttempts: number
+  /** Milliseconds to wait before retrying after the first failed attempt */
+  initialDelay: number
+  /** The longest number of milliseconds to wait before any retry */
+  maxDelay: number
+}
@@ -0,0 +1,25 @@
+/**
+ * Retention Policy
+ *
+ * @description
+ * Decides which spent outputs within a topic are pruned from storage. Unspent outputs are never pruned.
+ * A spent output is pruned when it falls outside any of the limits given.
+ */
+export type RetentionPolicy = {
+  /**
+   * The most spends that may separate a spent output from an unspent output descended from it.
+   * Spent outputs without an unspent descendant within this depth are pruned, so 0 keeps only unspent outputs.
+   */
+  maxHistoryDepth?: number
+
+  /**
+   * The longest time, in milliseconds, that a spent output is kept after being admitted.
+   * Outputs for which storage does not know when they were admitted are not pruned by age.
+   */
+  maxAge?: number
+
+  /**
+   * Whether every spent output is pruned, keeping only the unspent outputs of the topic.
+   */
+  keepOnlyUnspent?: boolean
+}
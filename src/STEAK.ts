@@ -1,5 +1,29 @@
 import { AdmittanceInstructions } from './AdmittanceInstructions.js'
 
+/**
+ * The outcome of a submitted transaction within a single topic:
+ * - `admitted` when the topic manager admitted at least one output
+ * - `duplicate` when the transaction had already been applied to the topic, in which case nothing is admitted again
+ * - `rejected-by-manager` when the topic manager failed to identify the admissible outputs
+ * - `no-admissible-outputs` when the topic manager admitted none of the outputs
+ */
+export type TopicStatus = 'admitted' | 'duplicate' | 'rejected-by-manager' | 'no-admissible-outputs'
+
+/**
+ * The admittance instructions followed for a topic, along with why the transaction was or was not admitted, and what became of the previous coins it spent.
+ * The diagnostic fields are optional, since they are not reported by older overlay nodes.
+ */
+export type TopicAdmittance = AdmittanceInstructions & {
+  /** The outcome of the transaction within the topic */
+  status?: TopicStatus
+  /** Why the topic manager rejected the transaction, when it did */
+  message?: string
+  /** The previous coins of the topic which the transaction spent, including any evicted */
+  coinsSpent?: Array<{ txid: string, outputIndex: number }>
+  /** The previous coins which were evicted from the topic, because the topic manager did not retain them */
+  coinsEvicted?: Array<{ txid: string, outputIndex: number }>
+}
+
 /**
  * Submitted Transaction Execution AcKnowledgment
  *
@@ -7,4 +31,4 @@ import { AdmittanceInstructions } from './AdmittanceInstructions.js'
  * Comprises the topics where a transaction was submitted, and for each one, the output indices for the UTXOs newly admitted into the topics, and the coins retained.
  * An object whose keys are topic names and whose values are topical admittance instructions denoting the state of the submitted transaction with respect to the associated topic.
  */
-export type STEAK = Record<string, AdmittanceInstructions>
+export type STEAK = Record<string, TopicAdmittance>
@@ -1,4 +1,5 @@
 import { AdmittanceInstructions } from './AdmittanceInstructions.js'
+import { RetentionPolicy } from './RetentionPolicy.js'
 
 /**
  * Defines a Topic Manager interface that can be implemented for specific use-cases
@@ -11,6 +12,12 @@ export interface TopicManager {
    */
   identifyAdmissibleOutputs: (beef: number[], previousCoins: number[]) => Promise<AdmittanceInstructions>
 
+  /**
+   * Returns the policy deciding how long spent outputs retained within the topic are kept, when the engine prunes outputs.
+   * Without a policy, spent outputs are kept for as long as they are retained.
+   */
+  getRetentionPolicy?: () => Promise<RetentionPolicy>
+
   /**
   * Returns a Markdown-formatted documentation string for the topic manager.
   */
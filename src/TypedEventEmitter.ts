@@ -0,0 +1,52 @@
+/**
+ * A minimal event emitter whose events and payloads are checked by the type system.
+ * Unlike the Node.js EventEmitter, it works in any JavaScript environment, and a failing listener never affects the code emitting the event or the other listeners.
+ */
+export class TypedEventEmitter<Events extends { [event: string]: unknown }> {
+  private readonly listeners: { [E in keyof Events]?: Array<(payload: Events[E]) => void> } = {}
+
+  /**
+   * Creates a new event emitter
+   * @param {function(string, unknown): void} [onListenerError] - reports errors thrown by listeners, which are otherwise written to the console
+   */
+  constructor(
+    private readonly onListenerError: (event: string, error: unknown) => void = (event, error) => console.error(`A listener for the ${event} event failed:`, error)
+  ) { }
+
+  /**
+   * Subscribes to an event.
+   * @param event - The event to subscribe to.
+   * @param listener - Called with the payload every time the event is emitted.
+   * @returns A function which unsubscribes the listener.
+   */
+  on<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): () => void {
+    const listeners = this.listeners[event] ?? []
+    listeners.push(listener)
+    this.listeners[event] = listeners
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * Unsubscribes a listener from an event.
+   * @param event - The event to unsubscribe from.
+   * @param listener - The listener to remove.
+   */
+  off<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): void {
+    this.listeners[event] = this.listeners[event]?.filter(l => l !== listener)
+  }
+
+  /**
+   * Emits an event to every listener subscribed to it.
+   * @param event - The event to emit.
+   * @param payload - Describes what happened.
+   */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    for (const listener of [...(this.listeners[event] ?? [])]) {
+      try {
+        listener(payload)
+      } catch (error) {
+        this.onListenerError(String(event), error)
+      }
+    }
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Thrown by the Overlay Services Engine when a submission or lookup question is rejected as invalid, such as a transaction for an unsupported topic
+ * or one that fails SPV verification, as opposed to a failure while processing a valid one.
+ *
+ * This lets callers such as the OverlayRequestHandler tell errors in a request apart from errors within the node.
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
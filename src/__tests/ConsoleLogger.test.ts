@@ -0,0 +1,37 @@
+import { ConsoleLogger } from '../ConsoleLogger'
+
+describe('ConsoleLogger', () => {
+  let spies: jest.SpyInstance[]
+
+  beforeEach(() => {
+    spies = (['debug', 'info', 'warn', 'error'] as const).map(level => jest.spyOn(console, level).mockImplementation(() => { }))
+  })
+
+  afterEach(() => {
+    spies.forEach(spy => spy.mockRestore())
+  })
+
+  it('Writes entries to the console method matching their level, along with their context', () => {
+    const logger = new ConsoleLogger('debug')
+    logger.debug('Debugging')
+    logger.info('Information', { txid: 'abc' })
+    logger.warn('Warning', { topic: 'Hello' })
+    logger.error('Failure', { domain: 'https://peer.example.com' })
+    expect(console.debug).toHaveBeenCalledWith('Debugging')
+    expect(console.info).toHaveBeenCalledWith('Information', { txid: 'abc' })
+    expect(console.warn).toHaveBeenCalledWith('Warning', { topic: 'Hello' })
+    expect(console.error).toHaveBeenCalledWith('Failure', { domain: 'https://peer.example.com' })
+  })
+
+  it('Skips entries below the minimum level, which is info by default', () => {
+    const logger = new ConsoleLogger()
+    logger.debug('Debugging')
+    logger.info('Information')
+    expect(console.debug).not.toHaveBeenCalled()
+    expect(console.info).toHaveBeenCalledWith('Information')
+
+    logger.level = 'error'
+    logger.warn('Warning')
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+})
@@ -3,8 +3,20 @@ import { LookupService } from '../LookupService'
 import { TopicManager } from '../TopicManager'
 import { AdmittanceInstructions } from '../AdmittanceInstructions'
 import { Storage } from '../storage/Storage'
-import { Transaction } from '@bsv/sdk'
+import { DuplicateRecordError } from '../storage/DuplicateRecordError'
+import { MemoryStorage } from '../storage/memory/MemoryStorage'
+import { KnexStorage } from '../storage/knex/KnexStorage'
+import allMigrations from '../storage/knex/all-migrations'
+import knexModule from 'knex'
+import { Transaction, MerklePath, LockingScript, UnlockingScript, Script, Utils } from '@bsv/sdk'
 import { Output } from '../Output'
+import { ProofFetcher } from '../ProofFetcher'
+import { OverlayTransport } from '../OverlayTransport'
+import { Logger } from '../Logger'
+import { MetricsRegistry } from '../metrics/MetricsRegistry'
+import { LookupCache } from '../LookupCache'
+import { ValidationError } from '../ValidationError'
+import { RetentionPolicy } from '../RetentionPolicy'
 
 const mockChainTracker = {
   isValidRootForHeight: jest.fn(async () => true)
@@ -16,6 +28,21 @@ const exampleTX = Transaction.fromHexBEEF(BRC62Hex)
 const exampleBeef = exampleTX.toBEEF()
 const exampleTXID = exampleTX.id('hex') as string
 const examplePreviousTXID = '3ecead27a44d013ad1aae40038acbb1883ac9242406808bb4667c15b4f164eac'
+// A chain of transactions whose outputs anyone can spend: a proven root, then two unproven transactions each spending the one before
+const spendableScript = new LockingScript(Script.fromASM('OP_TRUE').chunks)
+const rootTX = new Transaction(1, [], [{ lockingScript: spendableScript, satoshis: 3000 }])
+rootTX.merklePath = new MerklePath(800000, [[{ offset: 0, hash: rootTX.id('hex'), txid: true }, { offset: 1, duplicate: true }]])
+const spend = (sourceTransaction: Transaction, satoshis: number): Transaction => new Transaction(1, [{
+  sourceTransaction,
+  sourceTXID: sourceTransaction.id('hex'),
+  sourceOutputIndex: 0,
+  unlockingScript: new UnlockingScript(),
+  sequence: 0xffffffff
+}], [{ lockingScript: spendableScript, satoshis }])
+const firstTX = spend(rootTX, 2000)
+const secondTX = spend(firstTX, 1000)
+const firstTXID = firstTX.id('hex')
+const secondTXID = secondTX.id('hex')
 let mockTopicManager: TopicManager, mockLookupService: LookupService, mockStorageEngine: Storage
 const mockOutput: Output = {
   txid: exampleTXID,
@@ -57,10 +84,25 @@ describe('BSV Overlay Services Engine', () => {
       insertOutput: jest.fn(),
       findOutput: jest.fn(async () => null),
       findOutputsForTransaction: jest.fn(async () => []),
+      findOutputs: jest.fn(async () => []),
+      findUnprovenTransactions: jest.fn(async () => []),
+      markTransactionUnproven: jest.fn(),
+      markTransactionProven: jest.fn(),
       markUTXOAsSpent: jest.fn(),
       updateConsumedBy: jest.fn(),
+      updateOutputsConsumed: jest.fn(),
       updateOutputBeef: jest.fn(),
-      deleteOutput: jest.fn()
+      deleteOutput: jest.fn(),
+      insertPropagation: jest.fn(async () => 1),
+      findPendingPropagations: jest.fn(async () => []),
+      updatePropagation: jest.fn(),
+      deletePropagation: jest.fn(),
+      insertFailedNotification: jest.fn(async () => 1),
+      findFailedNotifications: jest.fn(async () => []),
+      findFailedNotification: jest.fn(async () => null),
+      updateFailedNotification: jest.fn(),
+      deleteFailedNotification: jest.fn(),
+      transaction: jest.fn(async (scope: (storage: Storage) => Promise<any>) => await scope(mockStorageEngine))
     }
   })
   describe('handleNewMerkleProof tests', () => {
@@ -111,7 +153,8 @@ const mockOutput: Output = {
           Hello: mockLookupService
         },
         mockStorageEngine,
-        mockChainTracker
+        mockChainTracker,
+        'https://overlay.example.com'
       )
 
       const merklePath = Transaction.fromHexBEEF(beef27c8f_0).merklePath
@@ -129,7 +172,8 @@ const mockOutput: Output = {
         },
         {},
         mockStorageEngine,
-        mockChainTracker
+        mockChainTracker,
+        'https://overlay.example.com'
       )
       await expect(engine.submit({
         beef: exampleBeef,
@@ -143,7 +187,8 @@ const mockOutput: Output = {
         },
         {},
         mockStorageEngine,
-        mockChainTracker
+        mockChainTracker,
+        'https://overlay.example.com'
       )
       await engine.submit({
         beef: exampleBeef,
@@ -158,7 +203,8 @@ const mockOutput: Output = {
         },
         {},
         mockStorageEngine,
-        mockChainTracker
+        mockChainTracker,
+        'https://overlay.example.com'
       )
       mockChainTracker.isValidRootForHeight.mockReturnValueOnce(Promise.resolve(false))
       await expect(engine.submit({
@@ -174,7 +220,8 @@ const mockOutput: Output = {
           },
           {},
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
         await engine.submit({
           beef: exampleBeef,
@@ -190,7 +237,8 @@ const mockOutput: Output = {
           },
           {},
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
         await engine.submit({
           beef: exampleBeef,
@@ -211,7 +259,8 @@ const mockOutput: Output = {
             },
             {},
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Submit the utxo
@@ -230,7 +279,8 @@ const mockOutput: Output = {
             },
             {},
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Submit the utxo
@@ -251,7 +301,8 @@ const mockOutput: Output = {
           },
           {},
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Submit the utxo
@@ -273,7 +324,8 @@ const mockOutput: Output = {
               Hello: mockLookupService
             },
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Submit the utxo
@@ -296,7 +348,8 @@ const mockOutput: Output = {
               Hello: mockLookupService
             },
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Submit the utxo
@@ -319,7 +372,8 @@ const mockOutput: Output = {
               Hello: mockLookupService
             },
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Submit the utxo
@@ -342,7 +396,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Submit the utxo
@@ -351,7 +406,7 @@ const mockOutput: Output = {
           topics: ['hello']
         })
         // Test the new UTXO was added
-        expect(mockStorageEngine.insertOutput).toHaveBeenCalledWith(mockOutput)
+        expect(mockStorageEngine.insertOutput).toHaveBeenCalledWith({ ...mockOutput, admittedAt: expect.any(Date) })
       })
       it('Notifies lookup services about incoming admissible UTXOs', async () => {
         // Mock findUTXO to return a UTXO
@@ -364,7 +419,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Submit the utxo
@@ -398,7 +454,8 @@ const mockOutput: Output = {
               Hello: mockLookupService
             },
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Submit the utxo
@@ -427,7 +484,8 @@ const mockOutput: Output = {
               Hello: mockLookupService
             },
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Submit the utxo
@@ -460,7 +518,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Submit the utxo
@@ -493,7 +552,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Submit the utxo
@@ -506,10 +566,915 @@ const mockOutput: Output = {
         expect(results).toEqual({
           Hello: {
             outputsToAdmit: [0],
-            coinsToRetain: [0]
+            coinsToRetain: [0],
+            status: 'admitted',
+            coinsSpent: [{ txid: mockOutput.txid, outputIndex: mockOutput.outputIndex }],
+            coinsEvicted: []
+          }
+        })
+      })
+      describe('Atomic processing', () => {
+        it('Processes the topic within a storage transaction', async () => {
+          const engine = new Engine(
+            {
+              Hello: mockTopicManager
+            },
+            {
+              Hello: mockLookupService
+            },
+            mockStorageEngine,
+            mockChainTracker,
+            'https://overlay.example.com'
+          )
+
+          // Submit the utxo
+          await engine.submit({
+            beef: exampleBeef,
+            topics: ['Hello']
+          })
+          expect(mockStorageEngine.transaction).toHaveBeenCalledTimes(1)
+        })
+        it('Does not notify lookup services when the changes for the topic are rolled back', async () => {
+          mockStorageEngine.findOutput = jest.fn(async () => mockOutput)
+          mockStorageEngine.insertAppliedTransaction = jest.fn(async () => {
+            throw new Error('Storage failure')
+          })
+          const engine = new Engine(
+            {
+              Hello: mockTopicManager
+            },
+            {
+              Hello: mockLookupService
+            },
+            mockStorageEngine,
+            mockChainTracker,
+            'https://overlay.example.com'
+          )
+
+          // Submit the utxo
+          await expect(engine.submit({
+            beef: exampleBeef,
+            topics: ['Hello']
+          })).rejects.toThrow('Storage failure')
+          expect(mockLookupService.outputSpent).not.toHaveBeenCalled()
+          expect(mockLookupService.outputDeleted).not.toHaveBeenCalled()
+          expect(mockLookupService.outputAdded).not.toHaveBeenCalled()
+        })
+        it('Treats the transaction as a duplicate when it was concurrently applied to the topic', async () => {
+          mockStorageEngine.findOutput = jest.fn(async () => mockOutput)
+          mockStorageEngine.insertAppliedTransaction = jest.fn(async () => {
+            throw new DuplicateRecordError('Already applied')
+          })
+          const engine = new Engine(
+            {
+              Hello: mockTopicManager
+            },
+            {
+              Hello: mockLookupService
+            },
+            mockStorageEngine,
+            mockChainTracker,
+            'https://overlay.example.com'
+          )
+
+          // Submit the utxo
+          const results = await engine.submit({
+            beef: exampleBeef,
+            topics: ['Hello']
+          })
+          expect(results).toEqual({
+            Hello: {
+              outputsToAdmit: [],
+              coinsToRetain: [],
+              status: 'duplicate',
+              coinsSpent: [],
+              coinsEvicted: []
+            }
+          })
+          expect(mockLookupService.outputAdded).not.toHaveBeenCalled()
+        })
+      })
+    })
+
+    describe('submitMany', () => {
+      it('Throws an error before processing anything if any transaction is submitted to an unsupported topic', async () => {
+        const engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          mockStorageEngine,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        await expect(engine.submitMany([
+          { beef: firstTX.toBEEF(), topics: ['Hello'] },
+          { beef: secondTX.toBEEF(), topics: ['Goodbye'] }
+        ])).rejects.toThrow('This server does not support this topic: Goodbye')
+        expect(mockStorageEngine.transaction).not.toHaveBeenCalled()
+      })
+      it('Processes transactions after those they spend from, detecting previous coins admitted earlier in the batch', async () => {
+        const storage = new MemoryStorage()
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        const engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          storage,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+
+        // The child is given first
+        const steaks = await engine.submitMany([
+          { beef: secondTX.toBEEF(), topics: ['Hello'] },
+          { beef: firstTX.toBEEF(), topics: ['Hello'] }
+        ])
+        expect(Object.keys(steaks)).toEqual([firstTXID, secondTXID])
+        expect(steaks[firstTXID]).toMatchObject({ Hello: { outputsToAdmit: [0], coinsToRetain: [] } })
+        expect(steaks[secondTXID]).toMatchObject({ Hello: { outputsToAdmit: [0], coinsToRetain: [0], coinsSpent: [{ txid: firstTXID, outputIndex: 0 }] } })
+        expect(await storage.findOutput(firstTXID, 0, 'Hello', true)).not.toBeNull()
+        expect(await storage.findOutput(secondTXID, 0, 'Hello', false)).not.toBeNull()
+      })
+      it('Submits every unproven transaction within a single BEEF', async () => {
+        const engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          mockStorageEngine,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        const steaks = await engine.submitMany([{ beef: secondTX.toBEEF(), topics: ['Hello'] }])
+        expect(Object.keys(steaks)).toEqual([firstTXID, secondTXID])
+        expect(mockStorageEngine.insertAppliedTransaction).toHaveBeenNthCalledWith(1, { txid: firstTXID, topic: 'Hello' })
+        expect(mockStorageEngine.insertAppliedTransaction).toHaveBeenNthCalledWith(2, { txid: secondTXID, topic: 'Hello' })
+      })
+      it('Submits a transaction given more than once only once, to all of its topics', async () => {
+        const engine = new Engine(
+          {
+            Hello: mockTopicManager,
+            World: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          mockStorageEngine,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        const steaks = await engine.submitMany([
+          { beef: firstTX.toBEEF(), topics: ['Hello'] },
+          { beef: firstTX.toBEEF(), topics: ['World'] }
+        ])
+        expect(steaks).toMatchObject({
+          [firstTXID]: {
+            Hello: { outputsToAdmit: [0], coinsToRetain: [] },
+            World: { outputsToAdmit: [0], coinsToRetain: [] }
+          }
+        })
+        expect(Object.keys(steaks[firstTXID])).toEqual(['Hello', 'World'])
+        expect(mockStorageEngine.insertAppliedTransaction).toHaveBeenCalledTimes(2)
+      })
+      it('Rejects malformed and truncated BEEF as invalid before processing anything', async () => {
+        const engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          mockStorageEngine,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        const beef = secondTX.toBEEF()
+        for (const malformed of [[1, 2, 3], beef.slice(0, beef.length - 10)]) {
+          await expect(engine.submitMany([
+            { beef: firstTX.toBEEF(), topics: ['Hello'] },
+            { beef: malformed, topics: ['Hello'] }
+          ])).rejects.toBeInstanceOf(ValidationError)
+        }
+        expect(mockStorageEngine.transaction).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('STEAK diagnostics', () => {
+      let engine: Engine
+      beforeEach(() => {
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+      })
+
+      it('Reports admitted outputs, with the previous coins spent and evicted', async () => {
+        expect(await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })).toEqual({
+          Hello: { outputsToAdmit: [0], coinsToRetain: [], status: 'admitted', coinsSpent: [], coinsEvicted: [] }
+        })
+        expect(await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })).toEqual({
+          Hello: {
+            outputsToAdmit: [0],
+            coinsToRetain: [],
+            status: 'admitted',
+            coinsSpent: [{ txid: rootTX.id('hex'), outputIndex: 0 }],
+            coinsEvicted: [{ txid: rootTX.id('hex'), outputIndex: 0 }]
+          }
+        })
+      })
+      it('Reports retained coins as spent without being evicted', async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        expect(await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })).toMatchObject({
+          Hello: { status: 'admitted', coinsSpent: [{ txid: rootTX.id('hex'), outputIndex: 0 }], coinsEvicted: [] }
+        })
+      })
+      it('Reports duplicate transactions', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        expect(await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })).toEqual({
+          Hello: { outputsToAdmit: [], coinsToRetain: [], status: 'duplicate', coinsSpent: [], coinsEvicted: [] }
+        })
+      })
+      it('Reports rejections by the topic manager, with its message', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async () => {
+          throw new Error('Invalid token')
+        })
+        expect(await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })).toEqual({
+          Hello: {
+            outputsToAdmit: [],
+            coinsToRetain: [],
+            status: 'rejected-by-manager',
+            message: 'Invalid token',
+            coinsSpent: [{ txid: rootTX.id('hex'), outputIndex: 0 }],
+            coinsEvicted: []
           }
         })
       })
+      it('Reports transactions with no admissible outputs', async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async () => ({ outputsToAdmit: [], coinsToRetain: [] }))
+        expect(await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })).toEqual({
+          Hello: { outputsToAdmit: [], coinsToRetain: [], status: 'no-admissible-outputs', coinsSpent: [], coinsEvicted: [] }
+        })
+      })
+    })
+
+    describe('Events', () => {
+      let storage: MemoryStorage, engine: Engine, events: Array<{ event: string, payload: unknown }>
+      beforeEach(() => {
+        storage = new MemoryStorage()
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          storage,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        events = []
+        for (const event of ['submitReceived', 'submitRejected', 'outputAdmitted', 'outputSpent', 'outputEvicted', 'merkleProofApplied'] as const) {
+          engine.events.on(event, payload => events.push({ event, payload }))
+        }
+      })
+
+      it('Emits events for admitted, spent and evicted outputs once they are committed', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        expect(events).toEqual([
+          { event: 'submitReceived', payload: { taggedBEEF: { beef: rootTX.toBEEF(), topics: ['Hello'] } } },
+          { event: 'outputAdmitted', payload: { txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello' } },
+          { event: 'submitReceived', payload: { taggedBEEF: { beef: firstTX.toBEEF(), topics: ['Hello'] } } },
+          { event: 'outputSpent', payload: { txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello' } },
+          { event: 'outputEvicted', payload: { txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello' } },
+          { event: 'outputAdmitted', payload: { txid: firstTXID, outputIndex: 0, topic: 'Hello' } }
+        ])
+      })
+      it('Emits an event when a submission is rejected', async () => {
+        await expect(engine.submit({ beef: exampleBeef, topics: ['Goodbye'] })).rejects.toThrow()
+        expect(events).toEqual([
+          { event: 'submitReceived', payload: { taggedBEEF: { beef: exampleBeef, topics: ['Goodbye'] } } },
+          { event: 'submitRejected', payload: { taggedBEEF: { beef: exampleBeef, topics: ['Goodbye'] }, error: new Error('This server does not support this topic: Goodbye') } }
+        ])
+      })
+      it('Emits an event when a merkle proof is applied', async () => {
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        const proof = new MerklePath(800001, [[{ offset: 0, hash: firstTXID, txid: true }, { offset: 1, duplicate: true }]])
+        await engine.handleNewMerkleProof(firstTXID, proof)
+        expect(events[events.length - 1]).toEqual({ event: 'merkleProofApplied', payload: { txid: firstTXID, proof } })
+      })
+      it('Emits events for deliveries to peers', async () => {
+        const propagationEvents: unknown[] = []
+        engine.events.on('propagationSent', payload => propagationEvents.push(payload))
+        engine.events.on('propagationFailed', payload => propagationEvents.push(payload))
+        engine.transport = {
+          submit: jest.fn(async (domain: string) => {
+            if (domain === 'https://down.example.com') throw new Error('Unreachable')
+          })
+        }
+        await storage.insertPropagation({ domain: 'https://up.example.com', topics: ['Hello'], beef: exampleBeef, attempts: 0, nextAttemptAt: new Date(0) })
+        await storage.insertPropagation({ domain: 'https://down.example.com', topics: ['Hello'], beef: exampleBeef, attempts: 0, nextAttemptAt: new Date(1) })
+        await engine.flushPropagations()
+        expect(propagationEvents).toEqual([
+          { domain: 'https://up.example.com', topics: ['Hello'] },
+          { domain: 'https://down.example.com', topics: ['Hello'], attempts: 1, error: 'Unreachable', willRetry: true }
+        ])
+      })
+      it('Stops calling listeners once they unsubscribe, and is not disturbed by failing listeners', async () => {
+        const listener = jest.fn()
+        const unsubscribe = engine.events.on('outputAdmitted', listener)
+        engine.events.on('outputAdmitted', () => {
+          throw new Error('Listener failure')
+        })
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        unsubscribe()
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        expect(listener).toHaveBeenCalledTimes(1)
+        expect(await storage.findOutput(firstTXID, 0, 'Hello')).not.toBeNull()
+      })
+    })
+
+    describe('Logging', () => {
+      let logger: Logger, engine: Engine
+      beforeEach(() => {
+        logger = {
+          debug: jest.fn(),
+          info: jest.fn(),
+          warn: jest.fn(),
+          error: jest.fn()
+        }
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          logger
+        )
+      })
+
+      it('Reports lookup service failures with the service and output concerned', async () => {
+        const error = new Error('Lookup service failure')
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw error
+        })
+        await engine.submit({ beef: exampleBeef, topics: ['Hello'] })
+        expect(logger.error).toHaveBeenCalledWith('Lookup service failed to process the outputAdded notification', {
+          service: 'Hello',
+          txid: exampleTXID,
+          outputIndex: 0,
+          topic: 'Hello',
+          error
+        })
+      })
+      it('Reports topic manager failures with the transaction and topic concerned', async () => {
+        const error = new Error('Topic manager failure')
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async () => {
+          throw error
+        })
+        await engine.submit({ beef: exampleBeef, topics: ['Hello'] })
+        expect(logger.warn).toHaveBeenCalledWith('Topic manager failed to identify admissible outputs', { txid: exampleTXID, topic: 'Hello', error })
+      })
+      it('Reports failing event listeners', async () => {
+        const error = new Error('Listener failure')
+        engine.events.on('submitReceived', () => {
+          throw error
+        })
+        await engine.submit({ beef: exampleBeef, topics: ['Hello'] })
+        expect(logger.error).toHaveBeenCalledWith('A listener for the submitReceived event failed', { error })
+      })
+    })
+
+    describe('Merged BEEF lookup answers', () => {
+      const otherTX = spend(rootTX, 1500)
+      let engine: Engine
+      beforeEach(async () => {
+        mockLookupService.lookup = jest.fn(async () => [
+          { txid: firstTXID, outputIndex: 0 },
+          { txid: otherTX.id('hex'), outputIndex: 0 }
+        ])
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: otherTX.toBEEF(), topics: ['Hello'] })
+      })
+
+      it('Returns every transaction and proof the outputs depend on once, in a single BEEF', async () => {
+        const answer = await engine.lookup({ service: 'Hello', query: {}, format: 'merged-beef' })
+        if (answer.type !== 'merged-beef') throw new Error('Expected a merged BEEF answer')
+        expect(answer.outputs).toEqual([
+          { txid: firstTXID, outputIndex: 0 },
+          { txid: otherTX.id('hex'), outputIndex: 0 }
+        ])
+
+        const reader = new Utils.Reader(answer.beef)
+        // Version 2 of BEEF, whose first bytes are 0200BEEF
+        expect(Utils.toHex(reader.read(4))).toBe('0200beef')
+        // The shared ancestor and its proof appear once
+        expect(reader.readVarIntNum()).toBe(1)
+        MerklePath.fromReader(reader)
+        expect(reader.readVarIntNum()).toBe(3)
+        const txids: string[] = []
+        for (let i = 0; i < 3; i++) {
+          // Each transaction follows its format, and the index of its merkle path when it has one
+          if (reader.readUInt8() === 1) expect(reader.readVarIntNum()).toBe(0)
+          const tx = Transaction.fromBinary(answer.beef.slice(reader.pos))
+          reader.pos += tx.toBinary().length
+          txids.push(tx.id('hex'))
+        }
+        expect(reader.eof()).toBe(true)
+        expect(txids).toEqual([rootTX.id('hex'), firstTXID, otherTX.id('hex')])
+        // The merged BEEF can be submitted again as a whole
+        expect(Object.keys(await engine.submitMany([{ beef: answer.beef, topics: ['Hello'] }]))).toEqual([firstTXID, otherTX.id('hex')])
+
+        const separate = await engine.lookup({ service: 'Hello', query: {} })
+        if (separate.type !== 'output-list') throw new Error('Expected an output list answer')
+        expect(answer.beef.length).toBeLessThan(separate.outputs.reduce((length, output) => length + output.beef.length, 0))
+      })
+      it('Keeps the cursor of the page', async () => {
+        const answer = await engine.lookup({ service: 'Hello', query: {}, format: 'merged-beef', limit: 1 })
+        expect(answer).toMatchObject({ type: 'merged-beef', outputs: [{ txid: firstTXID, outputIndex: 0 }], cursor: '1' })
+      })
+      it('Rejects unsupported formats', async () => {
+        await expect(engine.lookup({ service: 'Hello', query: {}, format: 'other' as 'merged-beef' })).rejects.toThrow('Unsupported lookup answer format: other')
+      })
+    })
+
+    describe('Lookup cache', () => {
+      let engine: Engine
+      beforeEach(() => {
+        mockLookupService.lookup = jest.fn(async () => [{ txid: rootTX.id('hex'), outputIndex: 0 }])
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          new LookupCache()
+        )
+      })
+
+      it('Answers repeated questions from the cache', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        const answer = await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })
+        expect(answer.type === 'output-list' && answer.outputs.length).toBe(1)
+        expect(await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })).toEqual(answer)
+        expect(mockLookupService.lookup).toHaveBeenCalledTimes(1)
+        await engine.lookup({ service: 'Hello', query: { name: 'Alice' } })
+        expect(mockLookupService.lookup).toHaveBeenCalledTimes(2)
+        expect(engine.metrics.toPrometheusText()).toContain('overlay_lookups_total{service="Hello",outcome="cached"} 1\n')
+      })
+      it('Asks the lookup service again once it is notified of a change', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        const answer = await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })
+        expect(mockLookupService.lookup).toHaveBeenCalledTimes(2)
+        // The output in the answer has since been spent
+        expect(answer).toEqual({ type: 'output-list', outputs: [] })
+      })
+      it('Asks the lookup service again once a merkle proof is applied, or its block is orphaned', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })
+        const newProof = new MerklePath(800002, [[{ offset: 0, hash: rootTX.id('hex'), txid: true }, { offset: 1, duplicate: true }]])
+        await engine.handleNewMerkleProof(rootTX.id('hex'), newProof)
+        const answer = await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })
+        expect(mockLookupService.lookup).toHaveBeenCalledTimes(2)
+        expect(answer.type === 'output-list' && Transaction.fromBEEF(answer.outputs[0].beef).merklePath).toEqual(newProof)
+
+        mockChainTracker.isValidRootForHeight.mockImplementationOnce(async () => false)
+        await engine.handleReorg([{ height: 800002 }])
+        await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })
+        expect(mockLookupService.lookup).toHaveBeenCalledTimes(3)
+      })
+      it('Does not cache answers prepared while the lookup service is notified of a change', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        mockLookupService.lookup = jest.fn(async () => {
+          // The output is spent while the question is being answered
+          await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+          return [{ txid: rootTX.id('hex'), outputIndex: 0 }]
+        })
+        await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })
+        mockLookupService.lookup = jest.fn(async () => [])
+        expect(await engine.lookup({ service: 'Hello', query: { name: 'Bob' } })).toEqual({ type: 'output-list', outputs: [] })
+        expect(mockLookupService.lookup).toHaveBeenCalledTimes(1)
+      })
+      it('Does not cache failed lookups', async () => {
+        mockLookupService.lookup = jest.fn(async () => {
+          throw new Error('Lookup failure')
+        })
+        await expect(engine.lookup({ service: 'Hello', query: {} })).rejects.toThrow('Lookup failure')
+        await expect(engine.lookup({ service: 'Hello', query: {} })).rejects.toThrow('Lookup failure')
+        expect(mockLookupService.lookup).toHaveBeenCalledTimes(2)
+      })
+    })
+
+    describe('Metrics', () => {
+      let metrics: MetricsRegistry, engine: Engine
+      beforeEach(() => {
+        metrics = new MetricsRegistry()
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          metrics
+        )
+      })
+
+      it('Counts and times submissions by outcome, and counts admissions by topic', async () => {
+        await engine.submit({ beef: exampleBeef, topics: ['Hello'] })
+        await expect(engine.submit({ beef: exampleBeef, topics: ['Goodbye'] })).rejects.toThrow()
+        mockChainTracker.isValidRootForHeight.mockImplementationOnce(async () => false)
+        await expect(engine.submit({ beef: exampleBeef, topics: ['Hello'] })).rejects.toThrow()
+        const text = metrics.toPrometheusText()
+        expect(text).toContain('overlay_submissions_total{outcome="accepted"} 1\n')
+        expect(text).toContain('overlay_submissions_total{outcome="rejected"} 2\n')
+        expect(text).toContain('overlay_submit_rejections_total{reason="unsupported_topic"} 1\n')
+        expect(text).toContain('overlay_submit_rejections_total{reason="invalid_spv"} 1\n')
+        expect(text).toContain('overlay_submit_duration_seconds_count 3\n')
+        expect(text).toContain('overlay_outputs_admitted_total{topic="Hello"} 1\n')
+      })
+      it('Counts and times lookups by service', async () => {
+        mockLookupService.lookup = jest.fn(async () => ({ type: 'freeform' as const, result: {} }))
+        await engine.lookup({ service: 'Hello', query: {} })
+        mockLookupService.lookup = jest.fn(async () => {
+          throw new Error('Lookup failure')
+        })
+        await expect(engine.lookup({ service: 'Hello', query: {} })).rejects.toThrow()
+        const text = metrics.toPrometheusText()
+        expect(text).toContain('overlay_lookups_total{service="Hello",outcome="answered"} 1\n')
+        expect(text).toContain('overlay_lookups_total{service="Hello",outcome="failed"} 1\n')
+        expect(text).toContain('overlay_lookup_duration_seconds_count{service="Hello"} 2\n')
+      })
+      it('Counts merkle proofs and propagations by outcome', async () => {
+        await expect(engine.handleNewMerkleProof(exampleTXID, exampleTX.merklePath as MerklePath)).rejects.toThrow()
+        engine.transport = {
+          submit: jest.fn(async () => {
+            throw new Error('Unreachable')
+          })
+        }
+        await engine.storage.insertPropagation({ domain: 'https://peer.example.com', topics: ['Hello'], beef: exampleBeef, attempts: 0, nextAttemptAt: new Date() })
+        await engine.flushPropagations()
+        const text = metrics.toPrometheusText()
+        expect(text).toContain('overlay_merkle_proofs_total{outcome="failed"} 1\n')
+        expect(text).toContain('overlay_propagations_total{domain="https://peer.example.com",outcome="failed"} 1\n')
+      })
+    })
+
+    describe('Propagation outbox', () => {
+      const propagation = {
+        domain: 'https://peer.example.com',
+        topics: ['Hello'],
+        beef: exampleBeef,
+        attempts: 0,
+        nextAttemptAt: new Date()
+      }
+      let storage: MemoryStorage, engine: Engine, transport: OverlayTransport
+      beforeEach(() => {
+        storage = new MemoryStorage()
+        transport = {
+          submit: jest.fn()
+        }
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          storage,
+          mockChainTracker,
+          'https://overlay.example.com',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { maxAttempts: 3, initialDelay: 1000, maxDelay: 1500 },
+          transport
+        )
+      })
+      afterEach(() => {
+        engine.stopPropagationRetries()
+      })
+
+      it('Records deliveries to peers in the outbox, keeping those that fail for a retry', async () => {
+        transport.submit = jest.fn(async () => {
+          throw new Error('Unreachable')
+        })
+        mockLookupService.lookup = jest.fn(async () => ({
+          type: 'output-list' as const,
+          outputs: [{ beef: exampleBeef, outputIndex: 0 }]
+        }))
+        engine.lookupServices.ls_ship = mockLookupService
+        engine.advertiser = {
+          createSHIPAdvertisement: jest.fn(),
+          createSLAPAdvertisement: jest.fn(),
+          findAllSHIPAdvertisements: jest.fn(),
+          findAllSLAPAdvertisements: jest.fn(),
+          revokeAdvertisement: jest.fn(),
+          parseAdvertisement: jest.fn(() => ({ protocol: 'SHIP' as const, identityKey: '', domain: 'https://peer.example.com', topic: 'Hello' }))
+        }
+        await engine.submit({ beef: exampleBeef, topics: ['Hello'] })
+        expect(transport.submit).toHaveBeenCalledWith('https://peer.example.com', { beef: exampleBeef, topics: ['Hello'] })
+        expect(await engine.listPendingPropagations()).toEqual([expect.objectContaining({
+          domain: 'https://peer.example.com',
+          topics: ['Hello'],
+          beef: exampleBeef,
+          attempts: 1,
+          lastError: 'Unreachable'
+        })])
+      })
+      it('Removes deliveries from the outbox once delivered', async () => {
+        await storage.insertPropagation(propagation)
+        await engine.flushPropagations()
+        expect(transport.submit).toHaveBeenCalledTimes(1)
+        expect(await engine.listPendingPropagations()).toEqual([])
+      })
+      it('Reschedules failed deliveries with exponential backoff, up to the maximum delay', async () => {
+        transport.submit = jest.fn(async () => {
+          throw new Error('The peer responded with status 500')
+        })
+        await storage.insertPropagation(propagation)
+        const start = Date.now()
+        await engine.flushPropagations()
+        let [pending] = await engine.listPendingPropagations()
+        expect(pending).toEqual(expect.objectContaining({ attempts: 1, lastError: 'The peer responded with status 500' }))
+        expect(pending.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(start + 1000)
+        expect(pending.nextAttemptAt.getTime()).toBeLessThan(start + 1500)
+
+        await engine.flushPropagations();
+        [pending] = await engine.listPendingPropagations()
+        expect(pending.attempts).toBe(2)
+        expect(pending.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(start + 1500)
+      })
+      it('Gives up on deliveries after the maximum number of attempts', async () => {
+        transport.submit = jest.fn(async () => {
+          throw new Error('The peer responded with status 500')
+        })
+        await storage.insertPropagation({ ...propagation, attempts: 2 })
+        await engine.flushPropagations()
+        expect(await engine.listPendingPropagations()).toEqual([])
+      })
+      it('Only retries deliveries which are due', async () => {
+        await storage.insertPropagation({ ...propagation, nextAttemptAt: new Date(Date.now() + 60000) })
+        await engine.retryPropagations()
+        expect(transport.submit).not.toHaveBeenCalled()
+        expect(await engine.listPendingPropagations()).toHaveLength(1)
+      })
+      it('Retries deliveries periodically once retries are started', async () => {
+        const delivered = new Promise<void>(resolve => {
+          transport.submit = jest.fn(async () => {
+            resolve()
+          })
+        })
+        await storage.insertPropagation(propagation)
+        engine.startPropagationRetries(1)
+        await delivered
+        engine.stopPropagationRetries()
+        expect(transport.submit).toHaveBeenCalledTimes(1)
+      })
+    })
+
+    describe('Proof reconciliation', () => {
+      const firstTXProof = new MerklePath(800001, [[{ offset: 0, hash: firstTXID, txid: true }, { offset: 1, duplicate: true }]])
+      let storage: MemoryStorage, proofFetcher: ProofFetcher, engine: Engine
+      beforeEach(async () => {
+        storage = new MemoryStorage()
+        proofFetcher = {
+          getMerkleProof: jest.fn(async () => firstTXProof)
+        }
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          storage,
+          mockChainTracker,
+          'https://overlay.example.com',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          proofFetcher
+        )
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+      })
+      afterEach(() => {
+        engine.stopProofPolling()
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => true)
+      })
+
+      it('Lists the transactions awaiting a merkle proof', async () => {
+        expect(await engine.listUnprovenTransactions()).toEqual([firstTXID])
+      })
+      it('Applies fetched proofs, after which the transactions no longer await one', async () => {
+        expect(await engine.reconcileProofs()).toEqual([firstTXID])
+        expect(proofFetcher.getMerkleProof).toHaveBeenCalledWith(firstTXID)
+        const output = await storage.findOutput(firstTXID, 0, 'Hello') as Output
+        expect(Transaction.fromBEEF(output.beef).merklePath).toEqual(firstTXProof)
+        expect(await engine.listUnprovenTransactions()).toEqual([])
+      })
+      it('Applies proofs to the ancestors of retained children, which remain unproven and valid', async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        proofFetcher.getMerkleProof = jest.fn(async (txid: string) => txid === firstTXID ? firstTXProof : undefined)
+        await engine.submit({ beef: secondTX.toBEEF(), topics: ['Hello'] })
+        expect(await engine.reconcileProofs()).toEqual([firstTXID])
+
+        const child = Transaction.fromBEEF((await storage.findOutput(secondTXID, 0, 'Hello') as Output).beef)
+        expect(child.merklePath).toBeUndefined()
+        expect(child.inputs[0].sourceTransaction?.merklePath).toEqual(firstTXProof)
+        expect(await child.verify(mockChainTracker)).toBe(true)
+        expect(await engine.listUnprovenTransactions()).toEqual([secondTXID])
+      })
+      it('Leaves transactions awaiting a proof when none is found yet', async () => {
+        proofFetcher.getMerkleProof = jest.fn(async () => undefined)
+        expect(await engine.reconcileProofs()).toEqual([])
+        expect(await engine.listUnprovenTransactions()).toEqual([firstTXID])
+      })
+      it('Ignores proofs the chain tracker does not accept', async () => {
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => false)
+        expect(await engine.reconcileProofs()).toEqual([])
+        expect(await engine.listUnprovenTransactions()).toEqual([firstTXID])
+      })
+      it('Rejects proofs handed to it which the chain tracker does not accept', async () => {
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => false)
+        await expect(engine.handleNewMerkleProof(firstTXID, firstTXProof)).rejects.toBeInstanceOf(ValidationError)
+        expect(await storage.findOutput(firstTXID, 0, 'Hello')).toEqual(expect.objectContaining({ beef: firstTX.toBEEF() }))
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => true)
+        await expect(engine.handleNewMerkleProof('00'.repeat(32), firstTXProof)).rejects.toBeInstanceOf(ValidationError)
+      })
+      it('Continues when fetching a proof fails', async () => {
+        proofFetcher.getMerkleProof = jest.fn(async () => {
+          throw new Error('Unavailable')
+        })
+        expect(await engine.reconcileProofs()).toEqual([])
+      })
+      it('Throws an error if no proof fetcher is configured', async () => {
+        engine.proofFetcher = undefined
+        await expect(engine.reconcileProofs()).rejects.toThrow('No proof fetcher is configured for this engine.')
+        expect(() => engine.startProofPolling()).toThrow('No proof fetcher is configured for this engine.')
+      })
+      it('Reconciles proofs periodically once polling is started', async () => {
+        const reconciled = new Promise<void>(resolve => {
+          proofFetcher.getMerkleProof = jest.fn(async () => {
+            resolve()
+            return undefined
+          })
+        })
+        engine.startProofPolling(1)
+        await reconciled
+        engine.stopProofPolling()
+        expect(proofFetcher.getMerkleProof).toHaveBeenCalledWith(firstTXID)
+      })
+    })
+
+    describe('handleReorg', () => {
+      let storage: MemoryStorage, engine: Engine
+      beforeEach(async () => {
+        storage = new MemoryStorage()
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          storage,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        jest.clearAllMocks()
+      })
+      afterEach(() => {
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => true)
+      })
+
+      it('Leaves outputs alone when their proofs are in blocks other than the orphaned ones', async () => {
+        expect(await engine.handleReorg([{ height: 800001 }])).toEqual({ unproven: [], evicted: [] })
+        expect(mockChainTracker.isValidRootForHeight).not.toHaveBeenCalled()
+        expect(await storage.findOutput(rootTX.id('hex'), 0, 'Hello')).not.toBeNull()
+      })
+      it('Keeps outputs whose proofs are still valid for the main chain', async () => {
+        expect(await engine.handleReorg([{ height: 800000 }])).toEqual({ unproven: [], evicted: [] })
+        expect(mockChainTracker.isValidRootForHeight).toHaveBeenCalledWith(rootTX.merklePath?.computeRoot(), 800000)
+        expect(await storage.findOutput(firstTXID, 0, 'Hello')).toEqual(expect.objectContaining({ beef: firstTX.toBEEF() }))
+      })
+      it('Only checks proofs against the given merkle root of an orphaned block', async () => {
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => false)
+        expect(await engine.handleReorg([{ height: 800000, merkleRoot: '00'.repeat(32) }])).toEqual({ unproven: [], evicted: [] })
+        expect(mockChainTracker.isValidRootForHeight).not.toHaveBeenCalled()
+      })
+      it('Marks transactions whose proofs are for orphaned blocks as awaiting a new proof, keeping their outputs', async () => {
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => false)
+        expect(await engine.handleReorg([{ height: 800000 }])).toEqual({ unproven: [rootTX.id('hex')], evicted: [] })
+        expect(await storage.findOutputs()).toHaveLength(2)
+        expect(mockLookupService.outputDeleted).not.toHaveBeenCalled()
+        expect(await engine.listUnprovenTransactions()).toEqual([rootTX.id('hex'), firstTXID].sort())
+      })
+      it('Evicts outputs relying on orphaned proofs of ancestors without stored outputs, notifying lookup services', async () => {
+        await storage.deleteOutput(rootTX.id('hex'), 0, 'Hello')
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => false)
+        expect(await engine.handleReorg([{ height: 800000 }])).toEqual({
+          unproven: [],
+          evicted: [{ txid: firstTXID, outputIndex: 0, topic: 'Hello' }]
+        })
+        expect(await storage.findOutputs()).toEqual([])
+        expect(mockLookupService.outputDeleted).toHaveBeenCalledWith(firstTXID, 0, 'Hello')
+        expect(await engine.listUnprovenTransactions()).toEqual([])
+      })
+      it('Stops awaiting a new proof once the transaction is mined again', async () => {
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => false)
+        await engine.handleReorg([{ height: 800000 }])
+        mockChainTracker.isValidRootForHeight.mockImplementation(async () => true)
+        const newProof = new MerklePath(800002, [[{ offset: 0, hash: rootTX.id('hex'), txid: true }, { offset: 1, duplicate: true }]])
+        await engine.handleNewMerkleProof(rootTX.id('hex'), newProof)
+        expect(await engine.listUnprovenTransactions()).toEqual([firstTXID])
+        const child = Transaction.fromBEEF((await storage.findOutput(firstTXID, 0, 'Hello') as Output).beef)
+        expect(child.inputs[0].sourceTransaction?.merklePath).toEqual(newProof)
+      })
     })
 
     describe('lookup', () => {
@@ -522,7 +1487,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Perform a lookup request
@@ -543,7 +1509,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Perform a lookup request
@@ -573,7 +1540,8 @@ const mockOutput: Output = {
               Hello: mockLookupService
             },
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
 
           // Perform a lookup request
@@ -600,7 +1568,8 @@ const mockOutput: Output = {
               Hello: mockLookupService
             },
             mockStorageEngine,
-            mockChainTracker
+            mockChainTracker,
+            'https://overlay.example.com'
           )
           engine.getUTXOHistory = jest.fn(async () => {
             return mockOutput
@@ -633,7 +1602,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
         engine.getUTXOHistory = jest.fn(async () => {
           return mockOutput
@@ -652,6 +1622,70 @@ const mockOutput: Output = {
         })
       })
     })
+    describe('lookup pagination', () => {
+      let engine: Engine
+      beforeEach(() => {
+        mockLookupService.lookup = jest.fn(async () => [
+          { txid: 'firstTXID', outputIndex: 0 },
+          { txid: 'spentTXID', outputIndex: 0 },
+          { txid: 'secondTXID', outputIndex: 0 },
+          { txid: 'thirdTXID', outputIndex: 0 }
+        ])
+        mockStorageEngine.findOutput = jest.fn(async (txid: string) => txid === 'spentTXID' ? null : { ...mockOutput, txid })
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          mockStorageEngine,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        engine.getUTXOHistory = jest.fn(async (output: Output) => ({ ...output, beef: [output.txid.length] }))
+      })
+
+      it('Returns every output, without a cursor, when no limit is given', async () => {
+        const answer = await engine.lookup({ service: 'Hello', query: {} })
+        expect(answer).toEqual({
+          type: 'output-list',
+          outputs: [{ beef: [9], outputIndex: 0 }, { beef: [10], outputIndex: 0 }, { beef: [9], outputIndex: 0 }]
+        })
+      })
+      it('Pages through the formula, skipping outputs which are no longer unspent', async () => {
+        const firstPage = await engine.lookup({ service: 'Hello', query: {}, limit: 2 })
+        expect(firstPage).toEqual({
+          type: 'output-list',
+          outputs: [{ beef: [9], outputIndex: 0 }, { beef: [10], outputIndex: 0 }],
+          cursor: '3'
+        })
+        const secondPage = await engine.lookup({ service: 'Hello', query: {}, limit: 2, cursor: firstPage.type === 'output-list' ? firstPage.cursor : undefined })
+        expect(secondPage).toEqual({
+          type: 'output-list',
+          outputs: [{ beef: [9], outputIndex: 0 }]
+        })
+        expect(engine.getUTXOHistory).toHaveBeenCalledTimes(3)
+      })
+      it('Passes the limit and cursor to the lookup service, and returns the cursor of its formula page', async () => {
+        mockLookupService.lookup = jest.fn(async () => ({
+          type: 'formula' as const,
+          formula: [{ txid: 'secondTXID', outputIndex: 0 }],
+          cursor: 'service-cursor'
+        }))
+        const answer = await engine.lookup({ service: 'Hello', query: {}, limit: 1, cursor: 'previous-cursor' })
+        expect(mockLookupService.lookup).toHaveBeenCalledWith({ service: 'Hello', query: {}, limit: 1, cursor: 'previous-cursor' })
+        expect(answer).toEqual({
+          type: 'output-list',
+          outputs: [{ beef: [10], outputIndex: 0 }],
+          cursor: 'service-cursor'
+        })
+      })
+      it('Rejects invalid limits and cursors', async () => {
+        await expect(engine.lookup({ service: 'Hello', query: {}, limit: 0 })).rejects.toThrow('The lookup limit must be a positive integer, received 0.')
+        await expect(engine.lookup({ service: 'Hello', query: {}, cursor: 'abc' })).rejects.toThrow('Invalid lookup cursor: abc')
+      })
+    })
     describe('getUTXOHistory', () => {
       it('Returns the given output if there is no history selector', async () => {
         // Already tested above
@@ -678,7 +1712,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Perform a lookup request
@@ -711,7 +1746,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Perform a lookup request
@@ -744,7 +1780,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Perform a lookup request
@@ -772,7 +1809,8 @@ const mockOutput: Output = {
             Hello: mockLookupService
           },
           mockStorageEngine,
-          mockChainTracker
+          mockChainTracker,
+          'https://overlay.example.com'
         )
 
         // Perform a lookup request
@@ -827,6 +1865,674 @@ const mockOutput: Output = {
       //   // TODO: Come up with some test data to test the history traversal process better
       // })
     })
+    describe('verifyIntegrity', () => {
+      const makeOutput = (tx: Transaction, overrides: Partial<Output> = {}): Output => ({
+        txid: tx.id('hex'),
+        outputIndex: 0,
+        outputScript: tx.outputs[0].lockingScript.toBinary(),
+        satoshis: tx.outputs[0].satoshis as number,
+        topic: 'Hello',
+        spent: false,
+        beef: tx.toBEEF(),
+        outputsConsumed: [],
+        consumedBy: [],
+        ...overrides
+      })
+      let storage: MemoryStorage, engine: Engine
+      beforeEach(() => {
+        storage = new MemoryStorage()
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          storage,
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+      })
+
+      it('Finds nothing wrong with storage kept by the engine', async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        const otherTX = spend(rootTX, 1500)
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: otherTX.toBEEF(), topics: ['Hello'] })
+        // Spending the other output without retaining it removes it, while the root output is still consumed by the first one
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async () => ({ outputsToAdmit: [0], coinsToRetain: [] }))
+        await engine.submit({ beef: spend(otherTX, 1000).toBEEF(), topics: ['Hello'] })
+
+        expect(await storage.findOutput(otherTX.id('hex'), 0, 'Hello')).toBeNull()
+        expect((await storage.findOutput(rootTX.id('hex'), 0, 'Hello'))?.consumedBy).toEqual([{ txid: firstTXID, outputIndex: 0 }])
+        expect(await engine.verifyIntegrity()).toEqual([])
+      })
+      it('Reports dangling references, spent outputs without consumers and invalid BEEF, without changing anything', async () => {
+        await storage.insertOutput(makeOutput(rootTX, { spent: true, consumedBy: [{ txid: firstTXID, outputIndex: 0 }] }))
+        await storage.insertOutput(makeOutput(secondTX, { outputsConsumed: [{ txid: firstTXID, outputIndex: 0 }] }))
+        await storage.insertOutput(makeOutput(exampleTX, { beef: [1, 2, 3] }))
+
+        const issues = await engine.verifyIntegrity()
+        expect(issues).toEqual(expect.arrayContaining([
+          { type: 'dangling-consumed-by', txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello', reference: { txid: firstTXID, outputIndex: 0 }, repaired: false },
+          { type: 'spent-without-consumers', txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello', repaired: false },
+          { type: 'dangling-outputs-consumed', txid: secondTXID, outputIndex: 0, topic: 'Hello', reference: { txid: firstTXID, outputIndex: 0 }, repaired: false },
+          { type: 'invalid-beef', txid: exampleTXID, outputIndex: 0, topic: 'Hello', error: expect.any(String), repaired: false }
+        ]))
+        expect(issues).toHaveLength(4)
+        expect(await storage.findOutputs()).toHaveLength(3)
+      })
+      it('Reports BEEF which no longer verifies against the chain', async () => {
+        await storage.insertOutput(makeOutput(rootTX))
+        mockChainTracker.isValidRootForHeight.mockImplementationOnce(async () => false)
+        expect(await engine.verifyIntegrity()).toEqual([
+          { type: 'invalid-beef', txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello', error: 'The BEEF does not verify', repaired: false }
+        ])
+      })
+      it('Aborts without repairing anything when the chain tracker fails', async () => {
+        await storage.insertOutput(makeOutput(rootTX))
+        mockChainTracker.isValidRootForHeight.mockImplementationOnce(async () => {
+          throw Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' })
+        })
+        await expect(engine.verifyIntegrity(true)).rejects.toMatchObject({ code: 'ECONNRESET' })
+        expect(await storage.findOutput(rootTX.id('hex'), 0, 'Hello')).not.toBeNull()
+        expect(mockLookupService.outputDeleted).not.toHaveBeenCalled()
+      })
+      it('Repairs the issues, other than spent outputs without consumers, notifying lookup services of the outputs removed', async () => {
+        await storage.insertOutput(makeOutput(rootTX, { spent: true, consumedBy: [{ txid: firstTXID, outputIndex: 0 }] }))
+        await storage.insertOutput(makeOutput(secondTX, { outputsConsumed: [{ txid: firstTXID, outputIndex: 0 }] }))
+        await storage.insertOutput(makeOutput(exampleTX, { beef: [1, 2, 3] }))
+
+        const issues = await engine.verifyIntegrity(true)
+        expect(issues).toHaveLength(4)
+        expect(issues.filter(issue => !issue.repaired).map(issue => issue.type)).toEqual(['spent-without-consumers'])
+        expect((await storage.findOutput(rootTX.id('hex'), 0, 'Hello'))?.consumedBy).toEqual([])
+        expect(await storage.findOutput(exampleTXID, 0, 'Hello')).toBeNull()
+        expect((await storage.findOutput(secondTXID, 0, 'Hello'))?.outputsConsumed).toEqual([])
+        expect(mockLookupService.outputDeleted).toHaveBeenCalledTimes(1)
+        expect(mockLookupService.outputDeleted).toHaveBeenCalledWith(exampleTXID, 0, 'Hello')
+        expect(await engine.verifyIntegrity()).toEqual([
+          { type: 'spent-without-consumers', txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello', repaired: false }
+        ])
+      })
+      it('Keeps coins retained by the topic manager when spent by a transaction which admitted no outputs', async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async () => ({ outputsToAdmit: [0], coinsToRetain: [] }))
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async () => ({ outputsToAdmit: [], coinsToRetain: [0] }))
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+
+        expect(await engine.verifyIntegrity(true)).toEqual([
+          { type: 'spent-without-consumers', txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello', repaired: false }
+        ])
+        expect(await storage.findOutput(rootTX.id('hex'), 0, 'Hello')).toMatchObject({ spent: true, consumedBy: [] })
+        expect(mockLookupService.outputDeleted).not.toHaveBeenCalled()
+      })
+      it('Keeps outputs with invalid BEEF which are still consumed by others', async () => {
+        await storage.insertOutput(makeOutput(rootTX, { spent: true, beef: [1, 2, 3], consumedBy: [{ txid: firstTXID, outputIndex: 0 }] }))
+        await storage.insertOutput(makeOutput(firstTX, { outputsConsumed: [{ txid: rootTX.id('hex'), outputIndex: 0 }] }))
+        const issues = await engine.verifyIntegrity(true)
+        expect(issues).toEqual([
+          { type: 'invalid-beef', txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello', error: expect.any(String), repaired: false }
+        ])
+        expect(await storage.findOutput(rootTX.id('hex'), 0, 'Hello')).not.toBeNull()
+      })
+    })
+    describe('reindexTopic', () => {
+      let engine: Engine
+      beforeEach(() => {
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+      })
+
+      it('Evicts outputs the current rules no longer admit or retain, updating the references of the rest', async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: secondTX.toBEEF(), topics: ['Hello'] })
+
+        // The new rules no longer admit the first transaction's output, nor retain what it spends
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => (
+          Transaction.fromBEEF(beef).id('hex') === firstTXID
+            ? { outputsToAdmit: [], coinsToRetain: [] }
+            : { outputsToAdmit: [0], coinsToRetain: previousCoins }
+        ))
+        const result = await engine.reindexTopic('Hello')
+        expect(result.admitted).toEqual([])
+        expect(result.evicted).toEqual(expect.arrayContaining([
+          { txid: rootTX.id('hex'), outputIndex: 0 },
+          { txid: firstTXID, outputIndex: 0 }
+        ]))
+        expect(result.evicted).toHaveLength(2)
+        expect(await engine.storage.findOutputs('Hello')).toMatchObject([{ txid: secondTXID, outputsConsumed: [] }])
+        expect(mockLookupService.outputDeleted).toHaveBeenCalledWith(firstTXID, 0, 'Hello')
+        expect(await engine.verifyIntegrity()).toEqual([])
+      })
+      it('Admits outputs the current rules admit, notifying lookup services', async () => {
+        const pairTX = new Transaction(1, [{
+          sourceTransaction: rootTX,
+          sourceTXID: rootTX.id('hex'),
+          sourceOutputIndex: 0,
+          unlockingScript: new UnlockingScript(),
+          sequence: 0xffffffff
+        }], [{ lockingScript: spendableScript, satoshis: 1000 }, { lockingScript: spendableScript, satoshis: 1000 }])
+        await engine.submit({ beef: pairTX.toBEEF(), topics: ['Hello'] })
+
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async () => ({ outputsToAdmit: [0, 1], coinsToRetain: [] }))
+        expect(await engine.reindexTopic('Hello')).toEqual({ admitted: [{ txid: pairTX.id('hex'), outputIndex: 1 }], evicted: [] })
+        expect(await engine.storage.findOutput(pairTX.id('hex'), 1, 'Hello')).toMatchObject({ spent: false, satoshis: 1000 })
+        expect(mockLookupService.outputAdded).toHaveBeenLastCalledWith(pairTX.id('hex'), 1, expect.any(Script), 'Hello')
+      })
+      it('Changes nothing when the rules have not changed', async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        const before = await engine.storage.findOutputs('Hello')
+        expect(await engine.reindexTopic('Hello')).toEqual({ admitted: [], evicted: [] })
+        expect(await engine.storage.findOutputs('Hello')).toEqual(before)
+      })
+      it('Rejects unsupported topics as invalid', async () => {
+        await expect(engine.reindexTopic('Goodbye')).rejects.toThrow(new ValidationError('This server does not support this topic: Goodbye'))
+        await expect(engine.reindexTopic('Goodbye')).rejects.toBeInstanceOf(ValidationError)
+      })
+    })
+
+    describe('backfillLookupService', () => {
+      let engine: Engine
+      let newService: LookupService
+      beforeEach(async () => {
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: secondTX.toBEEF(), topics: ['Hello'] })
+        newService = {
+          outputAdded: jest.fn(),
+          outputSpent: jest.fn(),
+          lookup: jest.fn(),
+          getDocumentation: jest.fn(),
+          getMetaData: jest.fn()
+        }
+        engine.lookupServices.Added = newService
+      })
+
+      it('Feeds the unspent outputs already stored to the lookup service', async () => {
+        expect(await engine.backfillLookupService('Added')).toEqual(1)
+        expect(newService.outputAdded).toHaveBeenCalledTimes(1)
+        expect(newService.outputAdded).toHaveBeenCalledWith(secondTXID, 0, expect.any(Script), 'Hello')
+        expect(newService.outputSpent).not.toHaveBeenCalled()
+      })
+      it('Also feeds spent outputs when asked to', async () => {
+        expect(await engine.backfillLookupService('Added', undefined, true)).toEqual(3)
+        expect(newService.outputAdded).toHaveBeenCalledTimes(3)
+        expect(newService.outputSpent).toHaveBeenCalledTimes(2)
+        expect(newService.outputSpent).toHaveBeenCalledWith(rootTX.id('hex'), 0, 'Hello')
+        expect(newService.outputSpent).toHaveBeenCalledWith(firstTXID, 0, 'Hello')
+      })
+      it('Reports checkpoints which a backfill can resume from', async () => {
+        const onProgress = jest.fn()
+        await engine.backfillLookupService('Added', ['Hello'], true, undefined, onProgress)
+        const outputs = await engine.storage.findOutputs('Hello')
+        const last = outputs[outputs.length - 1]
+        expect(onProgress).toHaveBeenCalledWith({ topic: 'Hello', txid: last.txid, outputIndex: last.outputIndex }, 3)
+
+        // Resuming after the first output only processes the rest
+        const added = newService.outputAdded as jest.Mock
+        added.mockClear()
+        const resumeFrom = { topic: 'Hello', txid: outputs[0].txid, outputIndex: outputs[0].outputIndex }
+        expect(await engine.backfillLookupService('Added', ['Hello'], true, resumeFrom)).toEqual(2)
+        expect(added.mock.calls.map(call => call[0])).toEqual([outputs[1].txid, outputs[2].txid])
+      })
+      it('Stops when the lookup service fails to process an output', async () => {
+        newService.outputAdded = jest.fn(async () => { throw new Error('Service unavailable') })
+        await expect(engine.backfillLookupService('Added')).rejects.toThrow('Service unavailable')
+      })
+      it('Throws an error for unknown lookup services', async () => {
+        await expect(engine.backfillLookupService('Missing')).rejects.toThrow('Lookup service not found for provider: Missing')
+      })
+    })
+
+    describe('Lookup service subscriptions', () => {
+      const makeService = (topics?: string[] | ((topic: string) => boolean)): LookupService => ({
+        topics,
+        outputAdded: jest.fn(),
+        outputSpent: jest.fn(),
+        outputDeleted: jest.fn(),
+        lookup: jest.fn(),
+        getDocumentation: jest.fn(),
+        getMetaData: jest.fn()
+      })
+      let listed: LookupService, predicated: LookupService, other: LookupService, engine: Engine
+      beforeEach(() => {
+        listed = makeService(['Hello'])
+        predicated = makeService(topic => topic.startsWith('Hel'))
+        other = makeService(['Goodbye'])
+        engine = new Engine(
+          {
+            Hello: mockTopicManager,
+            Goodbye: mockTopicManager
+          },
+          {
+            Hello: mockLookupService,
+            Listed: listed,
+            Predicated: predicated,
+            Other: other
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+      })
+
+      it('Only notifies lookup services about the topics they subscribe to', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        expect(listed.outputAdded).toHaveBeenCalledWith(rootTX.id('hex'), 0, expect.any(Script), 'Hello')
+        expect(predicated.outputAdded).toHaveBeenCalledWith(rootTX.id('hex'), 0, expect.any(Script), 'Hello')
+        expect(mockLookupService.outputAdded).toHaveBeenCalledWith(rootTX.id('hex'), 0, expect.any(Script), 'Hello')
+        expect(other.outputAdded).not.toHaveBeenCalled()
+
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        expect(listed.outputDeleted).toHaveBeenCalledWith(rootTX.id('hex'), 0, 'Hello')
+        expect(other.outputDeleted).not.toHaveBeenCalled()
+      })
+      it('Only backfills the topics a lookup service subscribes to', async () => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello', 'Goodbye'] })
+        ;(other.outputAdded as jest.Mock).mockClear()
+        expect(await engine.backfillLookupService('Other')).toEqual(1)
+        expect(other.outputAdded).toHaveBeenCalledTimes(1)
+        expect(other.outputAdded).toHaveBeenCalledWith(rootTX.id('hex'), 0, expect.any(Script), 'Goodbye')
+      })
+      it('Does not advertise lookup services which subscribe to none of the hosted topics', async () => {
+        engine.lookupServices.Elsewhere = makeService(['Elsewhere'])
+        engine.advertiser = {
+          createSHIPAdvertisement: jest.fn(async () => { throw new Error('Not under test') }),
+          createSLAPAdvertisement: jest.fn(async () => { throw new Error('Not under test') }),
+          findAllSHIPAdvertisements: jest.fn(async () => []),
+          findAllSLAPAdvertisements: jest.fn(async () => []),
+          revokeAdvertisement: jest.fn(),
+          parseAdvertisement: jest.fn()
+        }
+        await engine.syncAdvertisements()
+        const advertised = (engine.advertiser.createSLAPAdvertisement as jest.Mock).mock.calls.map(call => call[0])
+        expect(advertised).toEqual(expect.arrayContaining(['Hello', 'Listed', 'Predicated', 'Other']))
+        expect(advertised).not.toContain('Elsewhere')
+      })
+    })
+
+    describe('Failed notifications', () => {
+      let engine: Engine
+      const makeEngine = (maxAttempts: number, initialDelay: number): Engine => new Engine(
+        {
+          Hello: mockTopicManager
+        },
+        {
+          Hello: mockLookupService
+        },
+        new MemoryStorage(),
+        mockChainTracker,
+        'https://overlay.example.com',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        undefined,
+        undefined,
+        undefined,
+        { maxAttempts, initialDelay, maxDelay: initialDelay }
+      )
+      beforeEach(() => {
+        engine = makeEngine(3, 0)
+      })
+      afterEach(() => {
+        engine.stopNotificationRetries()
+      })
+
+      it('Records notifications that lookup services fail to process, with the error', async () => {
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        const failed = jest.fn()
+        engine.events.on('lookupNotificationFailed', failed)
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        expect(await engine.listFailedNotifications()).toEqual([{
+          id: expect.any(Number),
+          service: 'Hello',
+          type: 'outputAdded',
+          txid: rootTX.id('hex'),
+          outputIndex: 0,
+          topic: 'Hello',
+          outputScript: spendableScript.toBinary(),
+          attempts: 1,
+          nextAttemptAt: expect.any(Date),
+          lastError: 'Service unavailable'
+        }])
+        expect(failed).toHaveBeenCalledWith(expect.objectContaining({ service: 'Hello', type: 'outputAdded', attempts: 1, error: 'Service unavailable', willRetry: true }))
+      })
+      it('Retries failed notifications, removing them once processed', async () => {
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        mockLookupService.outputAdded = jest.fn()
+        await engine.retryFailedNotifications()
+        expect(mockLookupService.outputAdded).toHaveBeenCalledWith(rootTX.id('hex'), 0, expect.any(Script), 'Hello')
+        expect((mockLookupService.outputAdded as jest.Mock).mock.calls[0][2].toHex()).toEqual(spendableScript.toHex())
+        expect(await engine.listFailedNotifications()).toEqual([])
+      })
+      it('Stops retrying automatically once the maximum number of attempts is reached, until replayed', async () => {
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.retryFailedNotifications()
+        await engine.retryFailedNotifications()
+        await engine.retryFailedNotifications()
+        expect(mockLookupService.outputAdded).toHaveBeenCalledTimes(3)
+        const [exhausted] = await engine.listFailedNotifications()
+        expect(exhausted.attempts).toEqual(3)
+        expect(exhausted.nextAttemptAt).toBeUndefined()
+
+        await expect(engine.replayFailedNotification(exhausted.id)).rejects.toThrow('Service unavailable')
+        expect((await engine.listFailedNotifications())[0].attempts).toEqual(4)
+        mockLookupService.outputAdded = jest.fn()
+        await engine.replayFailedNotification(exhausted.id)
+        expect(mockLookupService.outputAdded).toHaveBeenCalledTimes(1)
+        expect(await engine.listFailedNotifications()).toEqual([])
+      })
+      it('Holds back later notifications about an output until earlier ones are processed', async () => {
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        mockLookupService.outputDeleted = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        expect((await engine.listFailedNotifications()).map(n => [n.type, n.txid])).toEqual([
+          ['outputAdded', rootTX.id('hex')],
+          ['outputSpent', rootTX.id('hex')],
+          ['outputDeleted', rootTX.id('hex')],
+          ['outputAdded', firstTXID]
+        ])
+
+        mockLookupService.outputDeleted = jest.fn()
+        await engine.retryFailedNotifications()
+        expect(mockLookupService.outputDeleted).not.toHaveBeenCalled()
+
+        mockLookupService.outputAdded = jest.fn()
+        await engine.retryFailedNotifications()
+        expect(mockLookupService.outputDeleted).toHaveBeenCalledWith(rootTX.id('hex'), 0, 'Hello')
+        expect(await engine.listFailedNotifications()).toEqual([])
+      })
+      it('Queues new notifications about an output behind earlier ones still waiting to be retried, instead of delivering them', async () => {
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        mockLookupService.outputSpent = jest.fn()
+        mockLookupService.outputDeleted = jest.fn()
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        expect(mockLookupService.outputSpent).not.toHaveBeenCalled()
+        expect(mockLookupService.outputDeleted).not.toHaveBeenCalled()
+        expect((await engine.listFailedNotifications()).map(n => [n.type, n.txid, n.attempts])).toEqual([
+          ['outputAdded', rootTX.id('hex'), 1],
+          ['outputSpent', rootTX.id('hex'), 0],
+          ['outputDeleted', rootTX.id('hex'), 0],
+          ['outputAdded', firstTXID, 1]
+        ])
+
+        const delivered: string[] = []
+        mockLookupService.outputAdded = jest.fn(async (txid: string) => { delivered.push(`outputAdded ${txid}`) })
+        mockLookupService.outputSpent = jest.fn(async (txid: string) => { delivered.push(`outputSpent ${txid}`) })
+        mockLookupService.outputDeleted = jest.fn(async (txid: string) => { delivered.push(`outputDeleted ${txid}`) })
+        await engine.retryFailedNotifications()
+        expect(delivered).toEqual([
+          `outputAdded ${rootTX.id('hex')}`,
+          `outputSpent ${rootTX.id('hex')}`,
+          `outputDeleted ${rootTX.id('hex')}`,
+          `outputAdded ${firstTXID}`
+        ])
+        expect(await engine.listFailedNotifications()).toEqual([])
+      })
+      it('Does not retry notifications before they are due', async () => {
+        engine = makeEngine(3, 60000)
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.retryFailedNotifications()
+        expect(mockLookupService.outputAdded).toHaveBeenCalledTimes(1)
+      })
+      it('Discards failed notifications', async () => {
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        const [failed] = await engine.listFailedNotifications()
+        await engine.discardFailedNotification(failed.id)
+        expect(await engine.listFailedNotifications()).toEqual([])
+        await expect(engine.replayFailedNotification(failed.id)).rejects.toThrow(`Failed notification not found: ${failed.id}`)
+      })
+      it('Retries failed notifications periodically once retries are started', async () => {
+        mockLookupService.outputAdded = jest.fn(async () => {
+          throw new Error('Service unavailable')
+        })
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        const processed = new Promise<void>(resolve => {
+          mockLookupService.outputAdded = jest.fn(async () => {
+            resolve()
+          })
+        })
+        engine.startNotificationRetries(1)
+        await processed
+        engine.stopNotificationRetries()
+        expect(mockLookupService.outputAdded).toHaveBeenCalledTimes(1)
+      })
+    })
+
+    describe('pruneOutputs', () => {
+      const makeEngine = (retentionPolicies?: Record<string, RetentionPolicy>, storage: Storage = new MemoryStorage()): Engine => new Engine(
+        {
+          Hello: mockTopicManager
+        },
+        {
+          Hello: mockLookupService
+        },
+        storage,
+        mockChainTracker,
+        'https://overlay.example.com',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        retentionPolicies
+      )
+      const submitChain = async (engine: Engine): Promise<void> => {
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: secondTX.toBEEF(), topics: ['Hello'] })
+      }
+      beforeEach(() => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+      })
+
+      it('Prunes spent outputs further from an unspent output than the maximum history depth, keeping the rest of the graph consistent', async () => {
+        const engine = makeEngine({ Hello: { maxHistoryDepth: 1 } })
+        await submitChain(engine)
+        expect(await engine.pruneOutputs()).toEqual([{ txid: rootTX.id('hex'), outputIndex: 0, topic: 'Hello' }])
+        expect(await engine.storage.findOutput(rootTX.id('hex'), 0, 'Hello')).toBeNull()
+        expect((await engine.storage.findOutput(firstTXID, 0, 'Hello'))?.outputsConsumed).toEqual([])
+        expect(mockLookupService.outputDeleted).toHaveBeenCalledWith(rootTX.id('hex'), 0, 'Hello')
+        expect(await engine.verifyIntegrity()).toEqual([])
+      })
+      it('Keeps only unspent outputs when the topic manager declares so', async () => {
+        mockTopicManager.getRetentionPolicy = async () => ({ keepOnlyUnspent: true })
+        const engine = makeEngine()
+        await submitChain(engine)
+        const pruned = await engine.pruneOutputs()
+        expect(pruned.map(o => o.txid).sort()).toEqual([rootTX.id('hex'), firstTXID].sort())
+        expect(await engine.storage.findOutputs('Hello')).toMatchObject([{ txid: secondTXID, spent: false, outputsConsumed: [] }])
+      })
+      it('Prunes spent outputs older than the maximum age', async () => {
+        const engine = makeEngine({ Hello: { maxAge: 60000 } })
+        await submitChain(engine)
+        expect(await engine.pruneOutputs()).toEqual([])
+        const pruned = await engine.pruneOutputs(new Date(Date.now() + 120000))
+        expect(pruned).toHaveLength(2)
+        expect(await engine.storage.findOutput(secondTXID, 0, 'Hello')).not.toBeNull()
+      })
+      it('Prefers the retention policies of the engine over those of topic managers, and leaves topics without a policy alone', async () => {
+        mockTopicManager.getRetentionPolicy = async () => ({ keepOnlyUnspent: true })
+        const engine = makeEngine({ Hello: { maxHistoryDepth: 5 } })
+        await submitChain(engine)
+        expect(await engine.pruneOutputs()).toEqual([])
+
+        delete mockTopicManager.getRetentionPolicy
+        const unlimited = makeEngine()
+        await submitChain(unlimited)
+        expect(await unlimited.pruneOutputs()).toEqual([])
+        expect(await unlimited.storage.findOutputs('Hello')).toHaveLength(3)
+      })
+      it('Frees the stored transactions of pruned outputs', async () => {
+        const knex = knexModule({
+          client: 'better-sqlite3',
+          connection: { filename: ':memory:' },
+          useNullAsDefault: true
+        })
+        try {
+          for (const migration of allMigrations) {
+            await migration.up(knex)
+          }
+          const engine = makeEngine({ Hello: { keepOnlyUnspent: true } }, new KnexStorage(knex))
+          const provenSecondTX = Transaction.fromBEEF(secondTX.toBEEF())
+          provenSecondTX.merklePath = new MerklePath(800002, [[{ offset: 0, hash: secondTXID, txid: true }, { offset: 1, duplicate: true }]])
+          await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+          await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+          await engine.submit({ beef: provenSecondTX.toBEEF(), topics: ['Hello'] })
+          expect(await knex('transactions').count({ count: '*' })).toEqual([{ count: 3 }])
+          expect(await engine.pruneOutputs()).toHaveLength(2)
+          expect(await knex('transactions').select('txid')).toEqual([{ txid: secondTXID }])
+          expect(await engine.verifyIntegrity()).toEqual([])
+        } finally {
+          await knex.destroy()
+        }
+      })
+      it('Prunes periodically once pruning is started', async () => {
+        jest.useFakeTimers()
+        try {
+          const engine = makeEngine({ Hello: { keepOnlyUnspent: true } })
+          const pruneOutputs = jest.spyOn(engine, 'pruneOutputs').mockImplementation(async () => [])
+          engine.startPruning(1000)
+          await jest.advanceTimersByTimeAsync(2500)
+          expect(pruneOutputs).toHaveBeenCalledTimes(2)
+          engine.stopPruning()
+          await jest.advanceTimersByTimeAsync(5000)
+          expect(pruneOutputs).toHaveBeenCalledTimes(2)
+        } finally {
+          jest.useRealTimers()
+        }
+      })
+    })
+
+    describe('getOutputDescendants', () => {
+      let engine: Engine
+      beforeEach(async () => {
+        mockTopicManager.identifyAdmissibleOutputs = jest.fn(async (beef: number[], previousCoins: number[]) => ({
+          outputsToAdmit: [0],
+          coinsToRetain: previousCoins
+        }))
+        engine = new Engine(
+          {
+            Hello: mockTopicManager
+          },
+          {
+            Hello: mockLookupService
+          },
+          new MemoryStorage(),
+          mockChainTracker,
+          'https://overlay.example.com'
+        )
+        await engine.submit({ beef: rootTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: firstTX.toBEEF(), topics: ['Hello'] })
+        await engine.submit({ beef: secondTX.toBEEF(), topics: ['Hello'] })
+      })
+
+      it('Follows the outputs created by spending the output, until the unspent ones', async () => {
+        const history = await engine.getOutputDescendants(rootTX.id('hex'), 0, 'Hello')
+        expect(history?.output).toMatchObject({ txid: rootTX.id('hex'), outputIndex: 0, spent: true })
+        expect(history?.depth).toBe(0)
+        expect(history?.descendants).toHaveLength(1)
+        expect(history?.descendants[0].output).toMatchObject({ txid: firstTXID, outputIndex: 0, spent: true })
+        expect(history?.descendants[0].depth).toBe(1)
+        expect(history?.descendants[0].descendants).toHaveLength(1)
+        expect(history?.descendants[0].descendants[0]).toMatchObject({
+          output: { txid: secondTXID, outputIndex: 0, spent: false },
+          depth: 2,
+          descendants: []
+        })
+      })
+      it('Stops after the given number of spends', async () => {
+        const history = await engine.getOutputDescendants(rootTX.id('hex'), 0, 'Hello', 1)
+        expect(history?.descendants[0].output.txid).toBe(firstTXID)
+        expect(history?.descendants[0].descendants).toEqual([])
+      })
+      it('Invokes the descendant selector with the BEEF, output index and depth of each output', async () => {
+        const selector = jest.fn(async (beef: number[], outputIndex: number, currentDepth: number) => currentDepth < 2)
+        const history = await engine.getOutputDescendants(rootTX.id('hex'), 0, 'Hello', selector)
+        expect(selector).toHaveBeenCalledTimes(3)
+        expect(Transaction.fromBEEF(selector.mock.calls[1][0]).id('hex')).toBe(firstTXID)
+        expect(selector.mock.calls[1].slice(1)).toEqual([0, 1])
+        expect(history?.descendants[0].descendants).toEqual([])
+      })
+      it('Returns undefined for outputs not in the topic', async () => {
+        expect(await engine.getOutputDescendants(rootTX.id('hex'), 0, 'Goodbye')).toBeUndefined()
+        expect(await engine.getOutputDescendants(rootTX.id('hex'), 1, 'Hello')).toBeUndefined()
+      })
+    })
     // describe('deleteUTXODeep', () => {
     //   it('Finds UTXO by ID if no output was provided', async () => {
 
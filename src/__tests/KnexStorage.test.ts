@@ -0,0 +1,292 @@
+import knexModule, { Knex } from 'knex'
+import { Transaction, MerklePath, LockingScript, UnlockingScript, Script } from '@bsv/sdk'
+import { KnexStorage } from '../storage/knex/KnexStorage'
+import { Output } from '../Output'
+import allMigrations from '../storage/knex/all-migrations'
+import { DuplicateRecordError } from '../storage/DuplicateRecordError'
+import { Logger } from '../Logger'
+
+const parentTX = new Transaction(1, [], [0, 1].map(i => ({
+  lockingScript: new LockingScript(Script.fromASM(`OP_FALSE OP_RETURN 0${i}`).chunks),
+  satoshis: 1000
+})))
+parentTX.merklePath = new MerklePath(800000, [[{ offset: 0, hash: parentTX.id('hex'), txid: true }, { offset: 1, duplicate: true }]])
+const childTX = new Transaction(1, [{
+  sourceTransaction: parentTX,
+  sourceTXID: parentTX.id('hex'),
+  sourceOutputIndex: 0,
+  unlockingScript: new UnlockingScript(),
+  sequence: 0xffffffff
+}], [0, 1, 2].map(i => ({
+  lockingScript: new LockingScript(Script.fromASM(`OP_FALSE OP_RETURN 1${i}`).chunks),
+  satoshis: 500
+})))
+const parentTXID = parentTX.id('hex')
+const childTXID = childTX.id('hex')
+
+const makeOutput = (tx: Transaction, outputIndex: number, overrides: Partial<Output> = {}): Output => ({
+  txid: tx.id('hex'),
+  outputIndex,
+  outputScript: tx.outputs[outputIndex].lockingScript.toBinary(),
+  satoshis: tx.outputs[outputIndex].satoshis as number,
+  topic: 'tm_one',
+  spent: false,
+  beef: tx.toBEEF(),
+  outputsConsumed: [],
+  consumedBy: [],
+  ...overrides
+})
+
+describe('KnexStorage', () => {
+  let knex: Knex
+
+  beforeEach(() => {
+    knex = knexModule({
+      client: 'better-sqlite3',
+      connection: { filename: ':memory:' },
+      useNullAsDefault: true
+    })
+  })
+
+  afterEach(async () => {
+    await knex.destroy()
+  })
+
+  describe('With all migrations applied', () => {
+    let storage: KnexStorage
+
+    beforeEach(async () => {
+      for (const migration of allMigrations) {
+        await migration.up(knex)
+      }
+      storage = new KnexStorage(knex)
+    })
+
+    it('Stores each transaction only once, no matter how many outputs and topics share it', async () => {
+      for (const topic of ['tm_one', 'tm_two', 'tm_three']) {
+        for (const outputIndex of [0, 1, 2]) {
+          await storage.insertOutput(makeOutput(childTX, outputIndex, { topic }))
+        }
+      }
+      expect(await knex('transactions').count({ count: '*' })).toEqual([{ count: 2 }])
+      expect(await knex('transactions').where({ txid: childTXID }).first('proof')).toEqual({ proof: null })
+    })
+
+    it('Updates the proof of a transaction once for every output built on it', async () => {
+      await storage.insertOutput(makeOutput(childTX, 0, { topic: 'tm_one' }))
+      await storage.insertOutput(makeOutput(childTX, 1, { topic: 'tm_two' }))
+      const provenChildTX = Transaction.fromBEEF(childTX.toBEEF())
+      provenChildTX.merklePath = new MerklePath(800001, [[{ offset: 0, hash: childTXID, txid: true }, { offset: 1, duplicate: true }]])
+
+      await storage.updateOutputBeef(childTXID, 0, 'tm_one', provenChildTX.toBEEF())
+      expect((await storage.findOutput(childTXID, 1, 'tm_two'))?.beef).toEqual(provenChildTX.toBEEF())
+    })
+
+    it('Keeps the proofs of stored transactions when the same transaction is later inserted without them', async () => {
+      const provenChildTX = Transaction.fromBEEF(childTX.toBEEF())
+      provenChildTX.merklePath = new MerklePath(800001, [[{ offset: 0, hash: childTXID, txid: true }, { offset: 1, duplicate: true }]])
+      await storage.insertOutput(makeOutput(provenChildTX, 0))
+      await storage.insertOutput(makeOutput(childTX, 1))
+      expect((await storage.findOutput(childTXID, 1))?.beef).toEqual(provenChildTX.toBEEF())
+    })
+
+    it('Deletes transactions once no output, edge or unproven transaction refers to them', async () => {
+      await storage.insertOutput(makeOutput(parentTX, 1))
+      await storage.insertOutput(makeOutput(childTX, 0, { topic: 'tm_two' }))
+      await storage.insertOutput(makeOutput(childTX, 1, { topic: 'tm_two' }))
+      await storage.deleteOutput(parentTXID, 1, 'tm_one')
+      expect(await storage.findOutput(childTXID, 0)).toEqual(makeOutput(childTX, 0, { topic: 'tm_two' }))
+      await storage.deleteOutput(childTXID, 0, 'tm_two')
+      expect(await knex('transactions').count({ count: '*' })).toEqual([{ count: 2 }])
+      await storage.deleteOutput(childTXID, 1, 'tm_two')
+      expect(await knex('transactions').count({ count: '*' })).toEqual([{ count: 0 }])
+      expect(await knex('transaction_inputs').count({ count: '*' })).toEqual([{ count: 0 }])
+    })
+
+    it('Deletes the ancestors of transactions once they are proven', async () => {
+      await storage.insertOutput(makeOutput(childTX, 0))
+      const provenChildTX = Transaction.fromBEEF(childTX.toBEEF())
+      provenChildTX.merklePath = new MerklePath(800001, [[{ offset: 0, hash: childTXID, txid: true }, { offset: 1, duplicate: true }]])
+      await storage.updateOutputBeef(childTXID, 0, 'tm_one', provenChildTX.toBEEF())
+      expect(await knex('transactions').select('txid')).toEqual([{ txid: childTXID }])
+      expect((await storage.findOutput(childTXID, 0))?.beef).toEqual(provenChildTX.toBEEF())
+    })
+  })
+
+  describe('Logging', () => {
+    let storage: KnexStorage, logger: Logger
+
+    beforeEach(async () => {
+      for (const migration of allMigrations) {
+        await migration.up(knex)
+      }
+      logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn()
+      }
+      storage = new KnexStorage(knex, logger)
+    })
+
+    it('Reports rejected duplicates at the debug level', async () => {
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      await expect(storage.insertOutput(makeOutput(parentTX, 0))).rejects.toBeInstanceOf(DuplicateRecordError)
+      expect(logger.debug).toHaveBeenCalledWith('Rejected an output already stored within its topic', { txid: parentTXID, outputIndex: 0, topic: 'tm_one' })
+    })
+
+    it('Reports units of work rolled back by unexpected errors, through the logger of the storage it was started from', async () => {
+      const error = new Error('Unexpected failure')
+      await expect(storage.transaction(async storage => {
+        await storage.transaction(async () => {
+          throw error
+        })
+      })).rejects.toThrow(error)
+      expect(logger.warn).toHaveBeenCalledTimes(1)
+      expect(logger.warn).toHaveBeenCalledWith('Rolled back a unit of work', { error })
+    })
+
+    it('Reports stored outputs whose transaction is missing', async () => {
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      await knex('transactions').del()
+      await expect(storage.findOutput(parentTXID, 0)).rejects.toThrow()
+      expect(logger.error).toHaveBeenCalledWith('A stored output refers to a transaction which is missing from storage', { txid: parentTXID })
+    })
+  })
+
+  describe('Indexes migration', () => {
+    it('Removes duplicate outputs and applied transactions before adding unique keys', async () => {
+      await allMigrations[0].up(knex)
+      await allMigrations[1].up(knex)
+      const output = {
+        txid: parentTXID,
+        outputIndex: 0,
+        outputScript: Buffer.from(parentTX.outputs[0].lockingScript.toBinary()),
+        topic: 'tm_one',
+        satoshis: 1000,
+        spent: false
+      }
+      await knex('outputs').insert([output, output, { ...output, topic: 'tm_two' }])
+      await knex('applied_transactions').insert([
+        { txid: parentTXID, topic: 'tm_one' },
+        { txid: parentTXID, topic: 'tm_one' }
+      ])
+      await allMigrations[2].up(knex)
+
+      expect(await knex('outputs').orderBy('id').select('id', 'topic')).toEqual([{ id: 1, topic: 'tm_one' }, { id: 3, topic: 'tm_two' }])
+      expect(await knex('applied_transactions').select('id')).toEqual([{ id: 1 }])
+      await expect(knex('outputs').insert(output)).rejects.toMatchObject({ code: 'SQLITE_CONSTRAINT_UNIQUE' })
+    })
+  })
+
+  describe('Edge sides migration', () => {
+    it('Lists each shared edge on both of its sides, and shares them again when rolled back', async () => {
+      for (const migration of allMigrations.slice(0, 7)) {
+        await migration.up(knex)
+      }
+      await knex('transactions').insert([
+        { txid: parentTXID, rawTx: Buffer.from(parentTX.toBinary()), proof: Buffer.from((parentTX.merklePath as MerklePath).toBinary()) },
+        { txid: childTXID, rawTx: Buffer.from(childTX.toBinary()), proof: null }
+      ])
+      await knex('outputs').insert([parentTX, childTX].map(tx => ({
+        txid: tx.id('hex'),
+        outputIndex: 0,
+        outputScript: Buffer.from(tx.outputs[0].lockingScript.toBinary()),
+        topic: 'tm_one',
+        satoshis: tx.outputs[0].satoshis,
+        spent: false
+      })))
+      const edge = { topic: 'tm_one', consumedTxid: parentTXID, consumedOutputIndex: 0, consumingTxid: childTXID, consumingOutputIndex: 0 }
+      await knex('output_edges').insert(edge)
+
+      await allMigrations[7].up(knex)
+      const storage = new KnexStorage(knex)
+      await storage.updateConsumedBy(parentTXID, 0, 'tm_one', [])
+      expect(await storage.findOutput(childTXID, 0)).toEqual(makeOutput(childTX, 0, {
+        outputsConsumed: [{ txid: parentTXID, outputIndex: 0 }]
+      }))
+      await storage.updateConsumedBy(parentTXID, 0, 'tm_one', [{ txid: childTXID, outputIndex: 0 }])
+
+      await allMigrations[7].down(knex)
+      expect(await knex('output_edges').select(Object.keys(edge))).toEqual([edge])
+    })
+  })
+
+  describe('Transaction inputs migration', () => {
+    it('Records the transactions spent by stored unproven transactions', async () => {
+      for (const migration of allMigrations.slice(0, 8)) {
+        await migration.up(knex)
+      }
+      await knex('transactions').insert([
+        { txid: parentTXID, rawTx: Buffer.from(parentTX.toBinary()), proof: Buffer.from((parentTX.merklePath as MerklePath).toBinary()) },
+        { txid: childTXID, rawTx: Buffer.from(childTX.toBinary()), proof: null }
+      ])
+
+      await allMigrations[8].up(knex)
+      expect(await knex('transaction_inputs').select('txid', 'sourceTxid')).toEqual([{ txid: childTXID, sourceTxid: parentTXID }])
+      await allMigrations[8].down(knex)
+      expect(await knex.schema.hasTable('transaction_inputs')).toBe(false)
+    })
+  })
+
+  describe('Normalized transactions migration', () => {
+    beforeEach(async () => {
+      await allMigrations[0].up(knex)
+      await knex('outputs').insert([{
+        txid: parentTXID,
+        outputIndex: 0,
+        outputScript: Buffer.from(parentTX.outputs[0].lockingScript.toBinary()),
+        topic: 'tm_one',
+        satoshis: 1000,
+        beef: Buffer.from(parentTX.toBEEF()),
+        outputsConsumed: '[]',
+        consumedBy: JSON.stringify([{ txid: childTXID, outputIndex: 0 }]),
+        spent: true
+      }, {
+        txid: childTXID,
+        outputIndex: 0,
+        outputScript: Buffer.from(childTX.outputs[0].lockingScript.toBinary()),
+        topic: 'tm_one',
+        satoshis: 500,
+        beef: Buffer.from(childTX.toBEEF()),
+        outputsConsumed: JSON.stringify([{ txid: parentTXID, outputIndex: 0 }]),
+        consumedBy: '[]',
+        spent: false
+      }])
+    })
+
+    it('Moves existing BEEF and history into the new tables', async () => {
+      // The storage reads the latest schema, so the later migrations are applied as well
+      for (const migration of allMigrations.slice(1)) {
+        await migration.up(knex)
+      }
+      const storage = new KnexStorage(knex)
+      expect(await storage.findOutput(parentTXID, 0)).toEqual(makeOutput(parentTX, 0, {
+        spent: true,
+        consumedBy: [{ txid: childTXID, outputIndex: 0 }]
+      }))
+      expect(await storage.findOutput(childTXID, 0)).toEqual(makeOutput(childTX, 0, {
+        outputsConsumed: [{ txid: parentTXID, outputIndex: 0 }]
+      }))
+      // The edge was recorded once, and then listed by the outputs on both of its sides
+      expect(await knex('output_edges').orderBy('side').select('side')).toEqual([{ side: 'consumedBy' }, { side: 'outputsConsumed' }])
+    })
+
+    it('Restores the original columns when rolled back', async () => {
+      await allMigrations[1].up(knex)
+      await allMigrations[1].down(knex)
+      const outputs = await knex('outputs').orderBy('id').select('txid', 'beef', 'outputsConsumed', 'consumedBy')
+      expect(outputs.map(o => ({ ...o, beef: [...o.beef] }))).toEqual([{
+        txid: parentTXID,
+        beef: parentTX.toBEEF(),
+        outputsConsumed: '[]',
+        consumedBy: JSON.stringify([{ txid: childTXID, outputIndex: 0 }])
+      }, {
+        txid: childTXID,
+        beef: childTX.toBEEF(),
+        outputsConsumed: JSON.stringify([{ txid: parentTXID, outputIndex: 0 }]),
+        consumedBy: '[]'
+      }])
+    })
+  })
+})
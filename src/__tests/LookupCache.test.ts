@@ -0,0 +1,64 @@
+import { LookupCache } from '../LookupCache'
+import { LookupAnswer } from '../LookupAnswer'
+
+const answer = (result: unknown): LookupAnswer => ({ type: 'freeform', result })
+
+describe('LookupCache', () => {
+  it('Finds answers by service, normalized query and page', () => {
+    const cache = new LookupCache()
+    cache.set({ service: 'ls_ship', query: { topic: 'tm_ship', domain: 'https://a.example.com' } }, answer('first'))
+    expect(cache.get({ service: 'ls_ship', query: { domain: 'https://a.example.com', topic: 'tm_ship' } })).toEqual(answer('first'))
+    expect(cache.get({ service: 'ls_slap', query: { domain: 'https://a.example.com', topic: 'tm_ship' } })).toBeUndefined()
+    expect(cache.get({ service: 'ls_ship', query: { topic: 'tm_slap', domain: 'https://a.example.com' } })).toBeUndefined()
+    expect(cache.get({ service: 'ls_ship', query: { topic: 'tm_ship', domain: 'https://a.example.com' }, limit: 10 })).toBeUndefined()
+  })
+
+  it('Expires answers after their time to live', () => {
+    let now = 1000
+    const cache = new LookupCache(500, 10, () => now)
+    cache.set({ service: 'ls_ship', query: 'tm_ship' }, answer('first'))
+    now = 1499
+    expect(cache.get({ service: 'ls_ship', query: 'tm_ship' })).toEqual(answer('first'))
+    now = 1500
+    expect(cache.get({ service: 'ls_ship', query: 'tm_ship' })).toBeUndefined()
+    expect(cache.size).toBe(0)
+  })
+
+  it('Drops the least recently used answers once full', () => {
+    const cache = new LookupCache(60000, 2)
+    cache.set({ service: 'ls_ship', query: 1 }, answer(1))
+    cache.set({ service: 'ls_ship', query: 2 }, answer(2))
+    cache.get({ service: 'ls_ship', query: 1 })
+    cache.set({ service: 'ls_ship', query: 3 }, answer(3))
+    expect(cache.get({ service: 'ls_ship', query: 1 })).toEqual(answer(1))
+    expect(cache.get({ service: 'ls_ship', query: 2 })).toBeUndefined()
+    expect(cache.get({ service: 'ls_ship', query: 3 })).toEqual(answer(3))
+  })
+
+  it('Drops every answer from a service when it is invalidated', () => {
+    const cache = new LookupCache()
+    cache.set({ service: 'ls_ship', query: 1 }, answer(1))
+    cache.set({ service: 'ls_ship', query: 2 }, answer(2))
+    cache.set({ service: 'ls_slap', query: 1 }, answer(3))
+    cache.invalidate('ls_ship')
+    expect(cache.size).toBe(1)
+    expect(cache.get({ service: 'ls_slap', query: 1 })).toEqual(answer(3))
+    cache.clear()
+    expect(cache.size).toBe(0)
+  })
+
+  it('Does not cache answers prepared before their service was invalidated or the cache was cleared', () => {
+    const cache = new LookupCache()
+    const before = cache.generation('ls_ship')
+    cache.invalidate('ls_slap')
+    cache.set({ service: 'ls_ship', query: 1 }, answer(1), before)
+    expect(cache.get({ service: 'ls_ship', query: 1 })).toEqual(answer(1))
+    cache.invalidate('ls_ship')
+    cache.set({ service: 'ls_ship', query: 2 }, answer(2), before)
+    expect(cache.get({ service: 'ls_ship', query: 2 })).toBeUndefined()
+    const afterInvalidation = cache.generation('ls_ship')
+    cache.clear()
+    cache.set({ service: 'ls_ship', query: 3 }, answer(3), afterInvalidation)
+    expect(cache.size).toBe(0)
+  })
+})
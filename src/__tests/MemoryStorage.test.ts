@@ -0,0 +1,158 @@
+import { Engine } from '../Engine'
+import { MemoryStorage } from '../storage/memory/MemoryStorage'
+import { DuplicateRecordError } from '../storage/DuplicateRecordError'
+import { LookupService } from '../LookupService'
+import { TopicManager } from '../TopicManager'
+import { Output } from '../Output'
+import { Transaction } from '@bsv/sdk'
+
+const mockChainTracker = {
+  isValidRootForHeight: jest.fn(async () => true)
+}
+
+const BRC62Hex = '0100beef01fe636d0c0007021400fe507c0c7aa754cef1f7889d5fd395cf1f785dd7de98eed895dbedfe4e5bc70d1502ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e010b00bc4ff395efd11719b277694cface5aa50d085a0bb81f613f70313acd28cf4557010400574b2d9142b8d28b61d88e3b2c3f44d858411356b49a28a4643b6d1a6a092a5201030051a05fc84d531b5d250c23f4f886f6812f9fe3f402d61607f977b4ecd2701c19010000fd781529d58fc2523cf396a7f25440b409857e7e221766c57214b1d38c7b481f01010062f542f45ea3660f86c013ced80534cb5fd4c19d66c56e7e8c5d4bf2d40acc5e010100b121e91836fd7cd5102b654e9f72f3cf6fdbfd0b161c53a9c54b12c841126331020100000001cd4e4cac3c7b56920d1e7655e7e260d31f29d9a388d04910f1bbd72304a79029010000006b483045022100e75279a205a547c445719420aa3138bf14743e3f42618e5f86a19bde14bb95f7022064777d34776b05d816daf1699493fcdf2ef5a5ab1ad710d9c97bfb5b8f7cef3641210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013e660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000001000100000001ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e000000006a47304402203a61a2e931612b4bda08d541cfb980885173b8dcf64a3471238ae7abcd368d6402204cbf24f04b9aa2256d8901f0ed97866603d2be8324c2bfb7a37bf8fc90edd5b441210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013c660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000000'
+const exampleTX = Transaction.fromHexBEEF(BRC62Hex)
+const exampleTXID = exampleTX.id('hex')
+const parentTX = exampleTX.inputs[0].sourceTransaction as Transaction
+const parentTXID = parentTX.id('hex')
+
+const makeOutput = (overrides: Partial<Output> = {}): Output => ({
+  txid: exampleTXID,
+  outputIndex: 0,
+  outputScript: exampleTX.outputs[0].lockingScript.toBinary(),
+  topic: 'hello',
+  satoshis: exampleTX.outputs[0].satoshis as number,
+  beef: exampleTX.toBEEF(),
+  spent: false,
+  outputsConsumed: [],
+  consumedBy: [],
+  ...overrides
+})
+
+describe('MemoryStorage', () => {
+  let storage: MemoryStorage
+
+  beforeEach(() => {
+    storage = new MemoryStorage()
+  })
+
+  it('Finds outputs by topic and spent status', async () => {
+    await storage.insertOutput(makeOutput())
+    await storage.insertOutput(makeOutput({ topic: 'world', spent: true }))
+
+    expect(await storage.findOutput(exampleTXID, 0)).toEqual(makeOutput())
+    expect(await storage.findOutput(exampleTXID, 0, 'world')).toEqual(makeOutput({ topic: 'world', spent: true }))
+    expect(await storage.findOutput(exampleTXID, 0, 'world', false)).toBeNull()
+    expect(await storage.findOutput(exampleTXID, 0, undefined, true)).toEqual(makeOutput({ topic: 'world', spent: true }))
+    expect(await storage.findOutput(exampleTXID, 1)).toBeNull()
+    expect(await storage.findOutputsForTransaction(exampleTXID)).toHaveLength(2)
+  })
+
+  it('Does not let callers modify stored outputs by reference', async () => {
+    const output = makeOutput()
+    await storage.insertOutput(output)
+    output.consumedBy.push({ txid: parentTXID, outputIndex: 0 })
+    const found = await storage.findOutput(exampleTXID, 0) as Output
+    found.spent = true
+
+    expect(await storage.findOutput(exampleTXID, 0)).toEqual(makeOutput())
+  })
+
+  it('Updates outputs only within the given topic', async () => {
+    await storage.insertOutput(makeOutput())
+    await storage.insertOutput(makeOutput({ topic: 'world' }))
+    await storage.markUTXOAsSpent(exampleTXID, 0, 'hello')
+    await storage.updateConsumedBy(exampleTXID, 0, 'hello', [{ txid: parentTXID, outputIndex: 0 }])
+    await storage.updateOutputBeef(exampleTXID, 0, 'hello', parentTX.toBEEF())
+
+    expect(await storage.findOutput(exampleTXID, 0, 'hello')).toEqual(makeOutput({
+      spent: true,
+      consumedBy: [{ txid: parentTXID, outputIndex: 0 }],
+      beef: parentTX.toBEEF()
+    }))
+    expect(await storage.findOutput(exampleTXID, 0, 'world')).toEqual(makeOutput({ topic: 'world' }))
+
+    await storage.deleteOutput(exampleTXID, 0, 'hello')
+    expect(await storage.findOutputsForTransaction(exampleTXID)).toEqual([makeOutput({ topic: 'world' })])
+  })
+
+  it('Tracks applied transactions per topic', async () => {
+    await storage.insertAppliedTransaction({ txid: exampleTXID, topic: 'hello' })
+    await expect(storage.insertAppliedTransaction({ txid: exampleTXID, topic: 'hello' })).rejects.toBeInstanceOf(DuplicateRecordError)
+
+    expect(await storage.doesAppliedTransactionExist({ txid: exampleTXID, topic: 'hello' })).toBe(true)
+    expect(await storage.doesAppliedTransactionExist({ txid: exampleTXID, topic: 'world' })).toBe(false)
+  })
+
+  it('Rolls back every change made within a failed unit of work', async () => {
+    await storage.insertOutput(makeOutput())
+    await expect(storage.transaction(async trx => {
+      await trx.markUTXOAsSpent(exampleTXID, 0, 'hello')
+      await trx.insertAppliedTransaction({ txid: exampleTXID, topic: 'hello' })
+      await trx.transaction(async nested => await nested.deleteOutput(exampleTXID, 0, 'hello'))
+      expect(await trx.findOutput(exampleTXID, 0)).toBeNull()
+      throw new Error('Failure')
+    })).rejects.toThrow('Failure')
+
+    expect(await storage.findOutput(exampleTXID, 0)).toEqual(makeOutput())
+    expect(await storage.doesAppliedTransactionExist({ txid: exampleTXID, topic: 'hello' })).toBe(false)
+  })
+
+  it('Commits every change made within a successful unit of work', async () => {
+    const result = await storage.transaction(async trx => {
+      await trx.insertOutput(makeOutput())
+      await trx.insertAppliedTransaction({ txid: exampleTXID, topic: 'hello' })
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(await storage.findOutput(exampleTXID, 0)).toEqual(makeOutput())
+    expect(await storage.doesAppliedTransactionExist({ txid: exampleTXID, topic: 'hello' })).toBe(true)
+  })
+
+  it('Runs a real Engine end to end', async () => {
+    const topicManager: TopicManager = {
+      identifyAdmissibleOutputs: async () => ({ outputsToAdmit: [0], coinsToRetain: [] }),
+      getDocumentation: async () => 'Topical Documentation',
+      getMetaData: async () => ({ name: 'Mock Manager', shortDescription: 'Mock Short Manager Description' })
+    }
+    const lookupService: LookupService = {
+      outputAdded: jest.fn(),
+      outputSpent: jest.fn(),
+      outputDeleted: jest.fn(),
+      lookup: async () => [{ txid: exampleTXID, outputIndex: 0 }],
+      getDocumentation: async () => 'Service Documentation',
+      getMetaData: async () => ({ name: 'Mock Service', shortDescription: 'Mock Short Service Description' })
+    }
+    const engine = new Engine(
+      {
+        Hello: topicManager
+      },
+      {
+        Hello: lookupService
+      },
+      storage,
+      mockChainTracker,
+      'https://overlay.example.com'
+    )
+
+    await engine.submit({ beef: parentTX.toBEEF(), topics: ['Hello'] })
+    expect(await storage.findOutput(parentTXID, 0, 'Hello', false)).not.toBeNull()
+
+    // Spending the parent without retaining it evicts it from the topic
+    await engine.submit({ beef: exampleTX.toBEEF(), topics: ['Hello'] })
+    expect(await storage.findOutput(parentTXID, 0, 'Hello')).toBeNull()
+    expect(lookupService.outputSpent).toHaveBeenCalledWith(parentTXID, 0, 'Hello')
+    expect(lookupService.outputDeleted).toHaveBeenCalledWith(parentTXID, 0, 'Hello')
+
+    // Resubmitting is a no-op
+    expect(await engine.submit({ beef: exampleTX.toBEEF(), topics: ['Hello'] })).toEqual({
+      Hello: { outputsToAdmit: [], coinsToRetain: [], status: 'duplicate', coinsSpent: [], coinsEvicted: [] }
+    })
+
+    expect(await engine.lookup({ service: 'Hello', query: {} })).toEqual({
+      type: 'output-list',
+      outputs: [{ beef: exampleTX.toBEEF(), outputIndex: 0 }]
+    })
+  })
+})
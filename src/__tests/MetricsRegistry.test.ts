@@ -0,0 +1,73 @@
+import { MetricsRegistry } from '../metrics/MetricsRegistry'
+
+describe('MetricsRegistry', () => {
+  it('Renders counters in the Prometheus text format, one series per set of labels', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter('requests_total', 'Requests served', ['method', 'status'])
+    counter.inc({ method: 'GET', status: '200' })
+    counter.inc({ status: '200', method: 'GET' }, 2)
+    counter.inc({ method: 'POST', status: '500' })
+    registry.counter('idle_total', 'Never increased')
+    expect(registry.toPrometheusText()).toBe([
+      '# HELP requests_total Requests served',
+      '# TYPE requests_total counter',
+      'requests_total{method="GET",status="200"} 3',
+      'requests_total{method="POST",status="500"} 1',
+      '# HELP idle_total Never increased',
+      '# TYPE idle_total counter',
+      ''
+    ].join('\n'))
+  })
+
+  it('Renders histograms with cumulative buckets, a sum and a count', () => {
+    const registry = new MetricsRegistry()
+    const histogram = registry.histogram('duration_seconds', 'Durations', ['service'], [0.1, 1])
+    histogram.observe({ service: 'ls_ship' }, 0.05)
+    histogram.observe({ service: 'ls_ship' }, 0.5)
+    histogram.observe({ service: 'ls_ship' }, 2)
+    expect(registry.toPrometheusText()).toBe([
+      '# HELP duration_seconds Durations',
+      '# TYPE duration_seconds histogram',
+      'duration_seconds_bucket{service="ls_ship",le="0.1"} 1',
+      'duration_seconds_bucket{service="ls_ship",le="1"} 2',
+      'duration_seconds_bucket{service="ls_ship",le="+Inf"} 3',
+      'duration_seconds_sum{service="ls_ship"} 2.55',
+      'duration_seconds_count{service="ls_ship"} 3',
+      ''
+    ].join('\n'))
+  })
+
+  it('Records elapsed seconds with timers', () => {
+    const registry = new MetricsRegistry()
+    const histogram = registry.histogram('duration_seconds', 'Durations')
+    histogram.startTimer()()
+    expect(registry.toPrometheusText()).toContain('duration_seconds_bucket{le="+Inf"} 1\n')
+    expect(registry.toPrometheusText()).toContain('duration_seconds_count 1\n')
+  })
+
+  it('Escapes label values and help text', () => {
+    const registry = new MetricsRegistry()
+    registry.counter('escaped_total', 'Back\\slash and\nnewline', ['domain']).inc({ domain: 'a "quoted"\\ domain\n' })
+    expect(registry.toPrometheusText()).toBe([
+      '# HELP escaped_total Back\\\\slash and\\nnewline',
+      '# TYPE escaped_total counter',
+      'escaped_total{domain="a \\"quoted\\"\\\\ domain\\n"} 1',
+      ''
+    ].join('\n'))
+  })
+
+  it('Returns the metric already registered under a name, unless it is of a different type', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter('shared_total', 'Shared')
+    expect(registry.counter('shared_total', 'Shared')).toBe(counter)
+    expect(() => registry.histogram('shared_total', 'Shared')).toThrow('A different type of metric is already registered as shared_total.')
+  })
+
+  it('Rejects invalid names, unknown labels and decreasing counters', () => {
+    const registry = new MetricsRegistry()
+    expect(() => registry.counter('invalid-name', 'Invalid')).toThrow('Invalid metric name: invalid-name')
+    const counter = registry.counter('valid_total', 'Valid', ['topic'])
+    expect(() => counter.inc({ service: 'ls_ship' })).toThrow('Unknown label: service')
+    expect(() => counter.inc({ topic: 'tm_ship' }, -1)).toThrow('Counter valid_total can not be decreased.')
+  })
+})
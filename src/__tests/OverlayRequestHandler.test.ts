@@ -0,0 +1,246 @@
+import { createServer, Server } from 'http'
+import type { AddressInfo } from 'net'
+import { Engine } from '../Engine'
+import { TopicManager } from '../TopicManager'
+import { LookupService } from '../LookupService'
+import { MemoryStorage } from '../storage/memory/MemoryStorage'
+import { FetchOverlayTransport } from '../transport/FetchOverlayTransport'
+import { OverlayRequestHandler, createExpressMiddleware } from '../http/OverlayRequestHandler'
+import { Transaction, MerklePath, UnlockingScript } from '@bsv/sdk'
+
+const mockChainTracker = {
+  isValidRootForHeight: jest.fn(async () => true)
+}
+
+const BRC62Hex = '0100beef01fe636d0c0007021400fe507c0c7aa754cef1f7889d5fd395cf1f785dd7de98eed895dbedfe4e5bc70d1502ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e010b00bc4ff395efd11719b277694cface5aa50d085a0bb81f613f70313acd28cf4557010400574b2d9142b8d28b61d88e3b2c3f44d858411356b49a28a4643b6d1a6a092a5201030051a05fc84d531b5d250c23f4f886f6812f9fe3f402d61607f977b4ecd2701c19010000fd781529d58fc2523cf396a7f25440b409857e7e221766c57214b1d38c7b481f01010062f542f45ea3660f86c013ced80534cb5fd4c19d66c56e7e8c5d4bf2d40acc5e010100b121e91836fd7cd5102b654e9f72f3cf6fdbfd0b161c53a9c54b12c841126331020100000001cd4e4cac3c7b56920d1e7655e7e260d31f29d9a388d04910f1bbd72304a79029010000006b483045022100e75279a205a547c445719420aa3138bf14743e3f42618e5f86a19bde14bb95f7022064777d34776b05d816daf1699493fcdf2ef5a5ab1ad710d9c97bfb5b8f7cef3641210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013e660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000001000100000001ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e000000006a47304402203a61a2e931612b4bda08d541cfb980885173b8dcf64a3471238ae7abcd368d6402204cbf24f04b9aa2256d8901f0ed97866603d2be8324c2bfb7a37bf8fc90edd5b441210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013c660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000000'
+const exampleTX = Transaction.fromHexBEEF(BRC62Hex)
+const exampleBeef = exampleTX.toBEEF()
+const exampleTXID = exampleTX.id('hex')
+
+const listen = async (server: Server): Promise<string> => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+const close = async (server: Server): Promise<void> => {
+  await new Promise<void>((resolve, reject) => server.close(error => error === undefined ? resolve() : reject(error)))
+}
+
+describe('OverlayRequestHandler', () => {
+  let engine: Engine, lookupService: LookupService, server: Server, url: string
+
+  beforeEach(async () => {
+    const topicManager: TopicManager = {
+      identifyAdmissibleOutputs: async () => ({ outputsToAdmit: [0], coinsToRetain: [] }),
+      getDocumentation: async () => 'Topical Documentation',
+      getMetaData: async () => ({ name: 'Mock Manager', shortDescription: 'Mock Short Manager Description' })
+    }
+    lookupService = {
+      outputAdded: jest.fn(),
+      lookup: jest.fn(async () => ({ type: 'freeform' as const, result: { answer: 42 } })),
+      getDocumentation: async () => 'Service Documentation',
+      getMetaData: async () => ({ name: 'Mock Service', shortDescription: 'Mock Short Service Description' })
+    }
+    engine = new Engine({ Hello: topicManager }, { HelloLookup: lookupService }, new MemoryStorage(), mockChainTracker, 'https://overlay.example.com')
+    server = createServer(new OverlayRequestHandler(engine).handle)
+    url = await listen(server)
+  })
+
+  afterEach(async () => {
+    await close(server)
+  })
+
+  it('Accepts submissions in exactly the form peers propagate them', async () => {
+    await new FetchOverlayTransport().submit(url, { beef: exampleBeef, topics: ['Hello'] })
+    expect(await engine.storage.findOutput(exampleTXID, 0, 'Hello')).not.toBeNull()
+  })
+
+  it('Responds to submissions with the STEAK', async () => {
+    const response = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream', 'X-Topics': JSON.stringify(['Hello']) },
+      body: new Uint8Array(exampleBeef)
+    })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ Hello: { outputsToAdmit: [0], coinsToRetain: [], status: 'admitted', coinsSpent: [], coinsEvicted: [] } })
+  })
+
+  it('Rejects submissions without valid topics', async () => {
+    const missing = await fetch(`${url}/submit`, { method: 'POST', body: new Uint8Array(exampleBeef) })
+    expect(missing.status).toBe(400)
+    expect(await missing.json()).toEqual({ status: 'error', message: 'The X-Topics header is required.' })
+    const invalid = await fetch(`${url}/submit`, { method: 'POST', headers: { 'X-Topics': 'Hello' }, body: new Uint8Array(exampleBeef) })
+    expect(await invalid.json()).toEqual({ status: 'error', message: 'The X-Topics header must be a JSON array of topic names.' })
+  })
+
+  it('Reports errors from the Engine', async () => {
+    const response = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'X-Topics': JSON.stringify(['Goodbye']) },
+      body: new Uint8Array(exampleBeef)
+    })
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ status: 'error', message: 'This server does not support this topic: Goodbye' })
+    const malformed = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'X-Topics': JSON.stringify(['Hello']) },
+      body: new Uint8Array([1, 2, 3])
+    })
+    expect(malformed.status).toBe(400)
+  })
+
+  it('Rejects transactions which fail to verify, but not failures of the chain tracker', async () => {
+    const invalidTX = new Transaction(1, [{
+      sourceTransaction: exampleTX,
+      sourceOutputIndex: 0,
+      unlockingScript: new UnlockingScript(),
+      sequence: 0xffffffff
+    }], [{ lockingScript: exampleTX.outputs[0].lockingScript, satoshis: 1 }])
+    const invalid = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'X-Topics': JSON.stringify(['Hello']) },
+      body: new Uint8Array(invalidTX.toBEEF())
+    })
+    expect(invalid.status).toBe(400)
+
+    mockChainTracker.isValidRootForHeight.mockImplementationOnce(async () => { throw new Error('Chain tracker unavailable') })
+    const response = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'X-Topics': JSON.stringify(['Hello']) },
+      body: new Uint8Array(exampleBeef)
+    })
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ status: 'error', message: 'Chain tracker unavailable' })
+  })
+
+  it('Answers failures within the node with a 500 status', async () => {
+    jest.spyOn(engine.storage, 'transaction').mockRejectedValue(new Error('Database unavailable'))
+    const response = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'X-Topics': JSON.stringify(['Hello']) },
+      body: new Uint8Array(exampleBeef)
+    })
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ status: 'error', message: 'Database unavailable' })
+  })
+
+  it('Responds with the STEAK without waiting for the transaction to be broadcast, logging broadcast failures', async () => {
+    let failBroadcast: (error: Error) => void = () => { }
+    engine.broadcaster = { broadcast: jest.fn(async () => await new Promise<never>((resolve, reject) => { failBroadcast = reject })) }
+    engine.logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+    const response = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'X-Topics': JSON.stringify(['Hello']) },
+      body: new Uint8Array(exampleBeef)
+    })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ Hello: { outputsToAdmit: [0], coinsToRetain: [], status: 'admitted', coinsSpent: [], coinsEvicted: [] } })
+    expect(engine.broadcaster.broadcast).toHaveBeenCalledTimes(1)
+
+    failBroadcast(new Error('Broadcast failed'))
+    await new Promise(resolve => setImmediate(resolve))
+    expect(engine.logger.error).toHaveBeenCalledWith('Failed to broadcast or propagate a submitted transaction', expect.objectContaining({ topics: ['Hello'] }))
+  })
+
+  it('Rejects bodies larger than the limit', async () => {
+    await close(server)
+    server = createServer(new OverlayRequestHandler(engine, 10).handle)
+    url = await listen(server)
+    const response = await fetch(`${url}/submit`, {
+      method: 'POST',
+      headers: { 'X-Topics': JSON.stringify(['Hello']) },
+      body: new Uint8Array(exampleBeef)
+    })
+    expect(response.status).toBe(413)
+  })
+
+  it('Answers lookup questions', async () => {
+    const response = await fetch(`${url}/lookup`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ service: 'HelloLookup', query: { name: 'Bob' } })
+    })
+    expect(await response.json()).toEqual({ type: 'freeform', result: { answer: 42 } })
+    expect(lookupService.lookup).toHaveBeenCalledWith({ service: 'HelloLookup', query: { name: 'Bob' } })
+  })
+
+  it('Lists the hosted topic managers and lookup services, with their documentation', async () => {
+    expect(await (await fetch(`${url}/listTopicManagers`)).json()).toEqual(['Hello'])
+    expect(await (await fetch(`${url}/listLookupServiceProviders`)).json()).toEqual(['HelloLookup'])
+    const managerDocumentation = await fetch(`${url}/getDocumentationForTopicManager?manager=Hello`)
+    expect(managerDocumentation.headers.get('Content-Type')).toBe('text/markdown')
+    expect(await managerDocumentation.text()).toBe('Topical Documentation')
+    expect(await (await fetch(`${url}/getDocumentationForLookupServiceProvider?lookupServiceProvider=HelloLookup`)).text()).toBe('Service Documentation')
+  })
+
+  it('Ingests merkle proofs', async () => {
+    const proof = new MerklePath(800000, [[{ offset: 0, hash: exampleTXID, txid: true }, { offset: 1, duplicate: true }]])
+    const handleNewMerkleProof = jest.spyOn(engine, 'handleNewMerkleProof').mockImplementation(async () => { })
+    const response = await fetch(`${url}/handleNewMerkleProof`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txid: exampleTXID, proof: proof.toHex() })
+    })
+    expect(response.status).toBe(200)
+    expect(handleNewMerkleProof).toHaveBeenCalledWith(exampleTXID, expect.any(MerklePath))
+    expect(handleNewMerkleProof.mock.calls[0][1].toHex()).toBe(proof.toHex())
+  })
+
+  it('Rejects merkle proofs the chain tracker does not accept, and proofs for unknown transactions', async () => {
+    await new FetchOverlayTransport().submit(url, { beef: exampleBeef, topics: ['Hello'] })
+    const proof = new MerklePath(1, [[{ offset: 0, hash: exampleTXID, txid: true }, { offset: 1, duplicate: true }]])
+    mockChainTracker.isValidRootForHeight.mockImplementationOnce(async () => false)
+    const rejected = await fetch(`${url}/handleNewMerkleProof`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txid: exampleTXID, proof: proof.toHex() })
+    })
+    expect(rejected.status).toBe(400)
+    expect(await engine.storage.findOutput(exampleTXID, 0, 'Hello')).toMatchObject({ beef: exampleBeef })
+
+    const unknownTXID = '00'.repeat(32)
+    const unknown = await fetch(`${url}/handleNewMerkleProof`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txid: unknownTXID, proof: new MerklePath(1, [[{ offset: 0, hash: unknownTXID, txid: true }, { offset: 1, duplicate: true }]]).toHex() })
+    })
+    expect(unknown.status).toBe(400)
+  })
+
+  it('Answers unknown routes and methods with errors', async () => {
+    expect((await fetch(`${url}/unknown`)).status).toBe(404)
+    const response = await fetch(`${url}/submit`)
+    expect(response.status).toBe(405)
+    expect(response.headers.get('Allow')).toBe('POST')
+  })
+})
+
+describe('createExpressMiddleware', () => {
+  it('Passes requests for other paths on, and uses bodies already parsed', async () => {
+    const lookupService: LookupService = {
+      lookup: jest.fn(async () => ({ type: 'freeform' as const, result: 'found' })),
+      getDocumentation: async () => 'Service Documentation',
+      getMetaData: async () => ({ name: 'Mock Service', shortDescription: 'Mock Short Service Description' })
+    }
+    const engine = new Engine({}, { HelloLookup: lookupService }, new MemoryStorage(), mockChainTracker, 'https://overlay.example.com')
+    const middleware = createExpressMiddleware(engine)
+
+    // Stands in for an Express application with a JSON body parser
+    const server = createServer((req, res) => {
+      (req as any).body = { service: 'HelloLookup', query: 'parsed' }
+      middleware(req, res, () => {
+        res.statusCode = 418
+        res.end()
+      })
+    })
+    const url = await listen(server)
+    try {
+      expect((await fetch(`${url}/elsewhere`)).status).toBe(418)
+      const response = await fetch(`${url}/lookup`, { method: 'POST' })
+      expect(await response.json()).toEqual({ type: 'freeform', result: 'found' })
+      expect(lookupService.lookup).toHaveBeenCalledWith({ service: 'HelloLookup', query: 'parsed' })
+    } finally {
+      await close(server)
+    }
+  })
+})
@@ -0,0 +1,119 @@
+import { Engine } from '../Engine'
+import { TopicManager } from '../TopicManager'
+import { LookupService } from '../LookupService'
+import { Advertiser } from '../Advertiser'
+import { MemoryStorage } from '../storage/memory/MemoryStorage'
+import { FetchOverlayTransport } from '../transport/FetchOverlayTransport'
+import { InProcessOverlayTransport } from '../transport/InProcessOverlayTransport'
+import { Transaction } from '@bsv/sdk'
+
+const mockChainTracker = {
+  isValidRootForHeight: jest.fn(async () => true)
+}
+
+const BRC62Hex = '0100beef01fe636d0c0007021400fe507c0c7aa754cef1f7889d5fd395cf1f785dd7de98eed895dbedfe4e5bc70d1502ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e010b00bc4ff395efd11719b277694cface5aa50d085a0bb81f613f70313acd28cf4557010400574b2d9142b8d28b61d88e3b2c3f44d858411356b49a28a4643b6d1a6a092a5201030051a05fc84d531b5d250c23f4f886f6812f9fe3f402d61607f977b4ecd2701c19010000fd781529d58fc2523cf396a7f25440b409857e7e221766c57214b1d38c7b481f01010062f542f45ea3660f86c013ced80534cb5fd4c19d66c56e7e8c5d4bf2d40acc5e010100b121e91836fd7cd5102b654e9f72f3cf6fdbfd0b161c53a9c54b12c841126331020100000001cd4e4cac3c7b56920d1e7655e7e260d31f29d9a388d04910f1bbd72304a79029010000006b483045022100e75279a205a547c445719420aa3138bf14743e3f42618e5f86a19bde14bb95f7022064777d34776b05d816daf1699493fcdf2ef5a5ab1ad710d9c97bfb5b8f7cef3641210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013e660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000001000100000001ac4e164f5bc16746bb0868404292ac8318bbac3800e4aad13a014da427adce3e000000006a47304402203a61a2e931612b4bda08d541cfb980885173b8dcf64a3471238ae7abcd368d6402204cbf24f04b9aa2256d8901f0ed97866603d2be8324c2bfb7a37bf8fc90edd5b441210263e2dee22b1ddc5e11f6fab8bcd2378bdd19580d640501ea956ec0e786f93e76ffffffff013c660000000000001976a9146bfd5c7fbe21529d45803dbcf0c87dd3c71efbc288ac0000000000'
+const exampleTX = Transaction.fromHexBEEF(BRC62Hex)
+const exampleBeef = exampleTX.toBEEF()
+const exampleTXID = exampleTX.id('hex')
+
+describe('FetchOverlayTransport', () => {
+  it('Posts the transaction to the /submit endpoint of the domain, with the configured headers', async () => {
+    const fetchFunction = jest.fn(async () => new Response(null, { status: 200 }))
+    const transport = new FetchOverlayTransport({ Authorization: 'Bearer token' }, fetchFunction)
+    await transport.submit('https://peer.example.com', { beef: exampleBeef, topics: ['Hello'] })
+    expect(fetchFunction).toHaveBeenCalledWith('https://peer.example.com/submit', {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer token',
+        'Content-Type': 'application/octet-stream',
+        'X-Topics': JSON.stringify(['Hello'])
+      },
+      body: new Uint8Array(exampleBeef)
+    })
+  })
+
+  it('Throws an error if the peer does not accept the submission', async () => {
+    const transport = new FetchOverlayTransport({}, async () => new Response(null, { status: 503 }))
+    await expect(transport.submit('https://peer.example.com', { beef: exampleBeef, topics: ['Hello'] }))
+      .rejects.toThrow('The peer responded with status 503')
+  })
+
+  it('Uses the global fetch by default', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(null, { status: 200 }))
+    try {
+      await new FetchOverlayTransport().submit('https://peer.example.com', { beef: exampleBeef, topics: ['Hello'] })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    } finally {
+      fetchMock.mockRestore()
+    }
+  })
+})
+
+describe('InProcessOverlayTransport', () => {
+  const makeTopicManager = (): TopicManager => ({
+    identifyAdmissibleOutputs: async () => ({ outputsToAdmit: [0], coinsToRetain: [] }),
+    getDocumentation: async () => 'Topical Documentation',
+    getMetaData: async () => ({ name: 'Mock Manager', shortDescription: 'Mock Short Manager Description' })
+  })
+
+  it('Throws an error for domains without a registered engine', async () => {
+    await expect(new InProcessOverlayTransport().submit('https://unknown.example.com', { beef: exampleBeef, topics: ['Hello'] }))
+      .rejects.toThrow('No engine is registered for the domain: https://unknown.example.com')
+  })
+
+  it('Propagates transactions between engines in the same process', async () => {
+    const transport = new InProcessOverlayTransport()
+
+    // The first node finds the second one through a SHIP advertisement
+    const shipLookupService: LookupService = {
+      lookup: async () => ({ type: 'output-list', outputs: [{ beef: exampleBeef, outputIndex: 0 }] }),
+      getDocumentation: async () => 'Service Documentation',
+      getMetaData: async () => ({ name: 'Mock Service', shortDescription: 'Mock Short Service Description' })
+    }
+    const advertiser: Advertiser = {
+      createSHIPAdvertisement: jest.fn(),
+      createSLAPAdvertisement: jest.fn(),
+      findAllSHIPAdvertisements: jest.fn(),
+      findAllSLAPAdvertisements: jest.fn(),
+      revokeAdvertisement: jest.fn(),
+      parseAdvertisement: () => ({ protocol: 'SHIP', identityKey: '', domain: 'https://second.example.com', topic: 'Hello' })
+    }
+    const firstStorage = new MemoryStorage()
+    const first = new Engine(
+      { Hello: makeTopicManager() },
+      { ls_ship: shipLookupService },
+      firstStorage,
+      mockChainTracker,
+      'https://first.example.com',
+      undefined,
+      undefined,
+      undefined,
+      advertiser,
+      undefined,
+      undefined,
+      transport
+    )
+    const secondStorage = new MemoryStorage()
+    const second = new Engine(
+      { Hello: makeTopicManager() },
+      {},
+      secondStorage,
+      mockChainTracker,
+      'https://second.example.com',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      transport
+    )
+    transport.register('https://first.example.com', first)
+    transport.register('https://second.example.com', second)
+
+    await first.submit({ beef: exampleBeef, topics: ['Hello'] })
+    expect(await firstStorage.findOutput(exampleTXID, 0, 'Hello')).not.toBeNull()
+    expect(await secondStorage.findOutput(exampleTXID, 0, 'Hello')).not.toBeNull()
+    expect(await first.listPendingPropagations()).toEqual([])
+  })
+})
@@ -0,0 +1,45 @@
+import knexModule, { Knex } from 'knex'
+import { storageConformanceTests, runStorageConformanceSuite } from '../storage/StorageConformanceSuite'
+import { KnexStorage } from '../storage/knex/KnexStorage'
+import { MemoryStorage } from '../storage/memory/MemoryStorage'
+import allMigrations from '../storage/knex/all-migrations'
+
+describe('Storage conformance', () => {
+  describe('KnexStorage on SQLite', () => {
+    let knex: Knex
+
+    beforeEach(async () => {
+      knex = knexModule({
+        client: 'better-sqlite3',
+        connection: { filename: ':memory:' },
+        useNullAsDefault: true
+      })
+      for (const migration of allMigrations) {
+        await migration.up(knex)
+      }
+    })
+
+    afterEach(async () => {
+      await knex.destroy()
+    })
+
+    for (const test of storageConformanceTests) {
+      it(test.name, async () => {
+        await test.run(new KnexStorage(knex))
+      })
+    }
+  })
+
+  describe('MemoryStorage', () => {
+    for (const test of storageConformanceTests) {
+      it(test.name, async () => {
+        await test.run(new MemoryStorage())
+      })
+    }
+  })
+
+  it('Reports the outcome of every test when run as a suite', async () => {
+    const results = await runStorageConformanceSuite(async () => new MemoryStorage())
+    expect(results).toEqual(storageConformanceTests.map(test => ({ name: test.name, passed: true })))
+  })
+})
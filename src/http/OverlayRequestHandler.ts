@@ -0,0 +1,240 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import { MerklePath } from '@bsv/sdk'
+import type { Engine } from '../Engine.js'
+import { ValidationError } from '../ValidationError.js'
+
+/**
+ * Exposes an Engine over HTTP, with the standard routes overlay nodes and their clients expect:
+ *
+ * - `POST /submit` takes a BEEF as an `application/octet-stream` body, with the topics as a JSON array in the `X-Topics` header, and responds with the STEAK
+ *   as soon as it is ready, without waiting for the transaction to be broadcast and propagated
+ * - `POST /lookup` takes a JSON LookupQuestion and responds with the LookupAnswer
+ * - `GET /listTopicManagers` and `GET /listLookupServiceProviders` respond with the names of those hosted
+ * - `GET /getDocumentationForTopicManager?manager=` and `GET /getDocumentationForLookupServiceProvider?lookupServiceProvider=` respond with their Markdown documentation
+ * - `POST /handleNewMerkleProof` takes a JSON body of the `txid` and the hex `proof` of a transaction once it is mined
+ *
+ * Failures are reported with a JSON body of `{ status: 'error', message }`, and a 400 status for invalid requests, 413 for bodies over the limit
+ * or 500 for failures within the node.
+ *
+ * The handler works with a plain Node `http` server, and can be mounted in Express through `createExpressMiddleware`.
+ * When a body parser has already consumed the request, its parsed `req.body` is used instead of the stream.
+ */
+export class OverlayRequestHandler {
+  /**
+   * Creates a new request handler
+   * @param {Engine} engine - the Engine answering the requests
+   * @param {number} [maxBodySize] - the largest request body accepted, in bytes. Defaults to 32 MiB.
+   */
+  constructor(
+    public engine: Engine,
+    public maxBodySize: number = 32 * 1024 * 1024
+  ) { }
+
+  /**
+   * Answers a request, suitable for passing directly to `http.createServer`.
+   * Requests for unknown paths are answered with a 404 status.
+   */
+  handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (!(await this.handleRoute(req, res))) {
+      sendJSON(res, 404, { status: 'error', message: `No route for ${req.method ?? 'GET'} ${requestURL(req).pathname}` })
+    }
+  }
+
+  /**
+   * Answers a request if it is for one of the overlay routes.
+   * @returns {Promise<boolean>} Whether the request was answered, so that other routes can handle it if not
+   */
+  async handleRoute(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const url = requestURL(req)
+    const route = this.routes[url.pathname]
+    if (route === undefined) {
+      return false
+    }
+    if (req.method !== route.method) {
+      res.setHeader('Allow', route.method)
+      sendJSON(res, 405, { status: 'error', message: `${url.pathname} only accepts ${route.method} requests` })
+      return true
+    }
+    try {
+      await route.handle(req, res, url)
+    } catch (error) {
+      if (error instanceof PayloadTooLargeError) {
+        sendJSON(res, 413, { status: 'error', message: error.message })
+      } else if (error instanceof ValidationError) {
+        sendJSON(res, 400, { status: 'error', message: error.message })
+      } else {
+        sendJSON(res, 500, { status: 'error', message: error instanceof Error ? error.message : String(error) })
+      }
+    }
+    return true
+  }
+
+  private readonly routes: Record<string, {
+    method: 'GET' | 'POST'
+    handle: (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void>
+  }> = {
+      '/submit': {
+        method: 'POST',
+        handle: async (req, res) => {
+          const topics = parseTopics(req.headers['x-topics'])
+          const beef = await this.readBody(req)
+          let responded = false
+          try {
+            await this.engine.submit({ beef: [...beef], topics }, steak => {
+              responded = true
+              sendJSON(res, 200, steak)
+            })
+          } catch (error) {
+            if (!responded) throw error
+            // The STEAK has already been sent, so a failure to broadcast or propagate the transaction can only be logged
+            this.engine.logger.error('Failed to broadcast or propagate a submitted transaction', { topics, error })
+          }
+        }
+      },
+      '/lookup': {
+        method: 'POST',
+        handle: async (req, res) => {
+          const question = await this.readJSON(req)
+          if (typeof question?.service !== 'string') {
+            throw new ValidationError('The lookup question must name a service.')
+          }
+          const answer = await this.engine.lookup({ service: question.service, query: question.query, limit: question.limit, cursor: question.cursor, format: question.format })
+          sendJSON(res, 200, answer)
+        }
+      },
+      '/listTopicManagers': {
+        method: 'GET',
+        handle: async (req, res) => {
+          sendJSON(res, 200, await this.engine.listTopicManagers())
+        }
+      },
+      '/listLookupServiceProviders': {
+        method: 'GET',
+        handle: async (req, res) => {
+          sendJSON(res, 200, await this.engine.listLookupServiceProviders())
+        }
+      },
+      '/getDocumentationForTopicManager': {
+        method: 'GET',
+        handle: async (req, res, url) => {
+          sendMarkdown(res, await this.engine.getDocumentationForTopicManager(url.searchParams.get('manager')))
+        }
+      },
+      '/getDocumentationForLookupServiceProvider': {
+        method: 'GET',
+        handle: async (req, res, url) => {
+          sendMarkdown(res, await this.engine.getDocumentationForLookupServiceProvider(url.searchParams.get('lookupServiceProvider')))
+        }
+      },
+      '/handleNewMerkleProof': {
+        method: 'POST',
+        handle: async (req, res) => {
+          const { txid, proof } = await this.readJSON(req) ?? {}
+          if (typeof txid !== 'string' || typeof proof !== 'string') {
+            throw new ValidationError('A txid and a hex proof are required.')
+          }
+          let merklePath: MerklePath
+          try {
+            merklePath = MerklePath.fromHex(proof)
+          } catch {
+            throw new ValidationError('The proof is not a valid hex merkle path.')
+          }
+          await this.engine.handleNewMerkleProof(txid, merklePath)
+          sendJSON(res, 200, { status: 'success' })
+        }
+      }
+    }
+
+  /**
+   * Reads the raw body of a request, or the body already read by a body parser.
+   */
+  private async readBody(req: IncomingMessage): Promise<Buffer> {
+    const parsed = (req as IncomingMessage & { body?: unknown }).body
+    if (Buffer.isBuffer(parsed)) {
+      return parsed
+    }
+    if (typeof parsed === 'string') {
+      return Buffer.from(parsed)
+    }
+    if (parsed !== undefined && parsed !== null && !(typeof parsed === 'object' && Object.keys(parsed).length === 0)) {
+      return Buffer.from(JSON.stringify(parsed))
+    }
+
+    const chunks: Buffer[] = []
+    let size = 0
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length
+      if (size > this.maxBodySize) {
+        throw new PayloadTooLargeError(`The request body is larger than ${this.maxBodySize} bytes.`)
+      }
+      chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks)
+  }
+
+  /**
+   * Reads the JSON body of a request, or the object already parsed by a body parser.
+   */
+  private async readJSON(req: IncomingMessage): Promise<any> {
+    const parsed = (req as IncomingMessage & { body?: unknown }).body
+    if (parsed !== undefined && parsed !== null && typeof parsed === 'object' && !Buffer.isBuffer(parsed)) {
+      return parsed
+    }
+    const body = await this.readBody(req)
+    try {
+      return JSON.parse(body.toString('utf8'))
+    } catch {
+      throw new ValidationError('The request body is not valid JSON.')
+    }
+  }
+}
+
+/**
+ * Mounts the overlay routes of an Engine in an Express application, with `app.use(createExpressMiddleware(engine))`.
+ * Requests for other paths are passed on to the next handler.
+ * @param {Engine} engine - the Engine answering the requests
+ * @param {number} [maxBodySize] - the largest request body accepted, in bytes
+ */
+export const createExpressMiddleware = (
+  engine: Engine,
+  maxBodySize?: number
+): (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void => {
+  const handler = new OverlayRequestHandler(engine, maxBodySize)
+  return (req, res, next) => {
+    handler.handleRoute(req, res).then(handled => {
+      if (!handled) next()
+    }, next)
+  }
+}
+
+class PayloadTooLargeError extends Error { }
+
+const requestURL = (req: IncomingMessage): URL => new URL(req.url ?? '/', 'http://localhost')
+
+const parseTopics = (header: string | string[] | undefined): string[] => {
+  if (typeof header !== 'string') {
+    throw new ValidationError('The X-Topics header is required.')
+  }
+  let topics: unknown
+  try {
+    topics = JSON.parse(header)
+  } catch {
+    throw new ValidationError('The X-Topics header must be a JSON array of topic names.')
+  }
+  if (!Array.isArray(topics) || !topics.every(t => typeof t === 'string')) {
+    throw new ValidationError('The X-Topics header must be a JSON array of topic names.')
+  }
+  return topics
+}
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown): void => {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+const sendMarkdown = (res: ServerResponse, body: string): void => {
+  res.statusCode = 200
+  res.setHeader('Content-Type', 'text/markdown')
+  res.end(body)
+}
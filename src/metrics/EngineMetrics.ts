@@ -0,0 +1,40 @@
+import { MetricsRegistry, Counter, Histogram } from './MetricsRegistry.js'
+
+/**
+ * The metrics instrumenting an Overlay Services Engine, registered in the engine's metrics registry.
+ */
+export class EngineMetrics {
+  /** Submitted transactions, by outcome: accepted, rejected or failed */
+  readonly submissions: Counter
+  /** Rejected submissions, by reason: unsupported_topic or invalid_spv */
+  readonly submitRejections: Counter
+  /** Seconds taken to process a submitted transaction, until its STEAK is ready or it is rejected or fails */
+  readonly submitDuration: Histogram
+  /** Outputs admitted into topics, by topic */
+  readonly outputsAdmitted: Counter
+  /** Outputs spent within topics, by topic */
+  readonly outputsSpent: Counter
+  /** Outputs removed from topics, by topic */
+  readonly outputsEvicted: Counter
+  /** Lookups, by service and outcome: answered, cached or failed */
+  readonly lookups: Counter
+  /** Seconds taken to answer a lookup, by service */
+  readonly lookupDuration: Histogram
+  /** Merkle proofs ingested, by outcome: applied or failed */
+  readonly merkleProofs: Counter
+  /** Deliveries of transactions to peers, by domain and outcome: sent or failed */
+  readonly propagations: Counter
+
+  constructor(registry: MetricsRegistry) {
+    this.submissions = registry.counter('overlay_submissions_total', 'Submitted transactions, by outcome', ['outcome'])
+    this.submitRejections = registry.counter('overlay_submit_rejections_total', 'Rejected submissions, by reason', ['reason'])
+    this.submitDuration = registry.histogram('overlay_submit_duration_seconds', 'Seconds taken to process a submitted transaction, until its STEAK is ready or it is rejected or fails')
+    this.outputsAdmitted = registry.counter('overlay_outputs_admitted_total', 'Outputs admitted into topics', ['topic'])
+    this.outputsSpent = registry.counter('overlay_outputs_spent_total', 'Outputs spent within topics', ['topic'])
+    this.outputsEvicted = registry.counter('overlay_outputs_evicted_total', 'Outputs removed from topics', ['topic'])
+    this.lookups = registry.counter('overlay_lookups_total', 'Lookups, by service and outcome', ['service', 'outcome'])
+    this.lookupDuration = registry.histogram('overlay_lookup_duration_seconds', 'Seconds taken to answer a lookup', ['service'])
+    this.merkleProofs = registry.counter('overlay_merkle_proofs_total', 'Merkle proofs ingested, by outcome', ['outcome'])
+    this.propagations = registry.counter('overlay_propagations_total', 'Deliveries of transactions to peers, by domain and outcome', ['domain', 'outcome'])
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * The values of the labels distinguishing the series of a metric, keyed by label name.
+ */
+export type MetricLabels = Record<string, string>
+
+// Bucket upper bounds, in seconds, suited to timing requests
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+/**
+ * A metric whose value only ever increases, such as the number of requests served.
+ */
+export class Counter {
+  private readonly values = new Map<string, number>()
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly labelNames: string[]
+  ) { }
+
+  /**
+   * Increases the counter.
+   * @param labels - Identifies the series to increase.
+   * @param value - The amount to increase by, which must not be negative.
+   */
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} can not be decreased.`)
+    }
+    const key = seriesKey(this.labelNames, labels)
+    this.values.set(key, (this.values.get(key) ?? 0) + value)
+  }
+
+  /**
+   * Renders the counter in the Prometheus text exposition format.
+   */
+  render(): string {
+    let text = header(this.name, this.help, 'counter')
+    for (const [key, value] of this.values) {
+      text += `${this.name}${key} ${formatValue(value)}\n`
+    }
+    return text
+  }
+}
+
+/**
+ * A metric sampling observations, such as request durations, into cumulative buckets.
+ */
+export class Histogram {
+  private readonly series = new Map<string, { buckets: number[], sum: number, count: number }>()
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly labelNames: string[],
+    public readonly buckets: number[] = DEFAULT_BUCKETS
+  ) { }
+
+  /**
+   * Records an observation.
+   * @param labels - Identifies the series to record in.
+   * @param value - The observed value.
+   */
+  observe(labels: MetricLabels, value: number): void {
+    const key = seriesKey(this.labelNames, labels)
+    let series = this.series.get(key)
+    if (series === undefined) {
+      series = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, series)
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) (series as { buckets: number[] }).buckets[i]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  /**
+   * Starts timing something, such as a request.
+   * @param labels - Identifies the series to record the duration in.
+   * @returns A function which records the number of seconds since the timer was started.
+   */
+  startTimer(labels: MetricLabels = {}): () => void {
+    const start = performance.now()
+    return () => this.observe(labels, (performance.now() - start) / 1000)
+  }
+
+  /**
+   * Renders the histogram in the Prometheus text exposition format.
+   */
+  render(): string {
+    let text = header(this.name, this.help, 'histogram')
+    for (const [key, series] of this.series) {
+      // The label set is extended with the upper bound of each bucket
+      const labels = key === '' ? '' : key.slice(1, -1)
+      const withBound = (bound: string): string => `{${labels}${labels === '' ? '' : ','}le="${bound}"}`
+      this.buckets.forEach((bound, i) => {
+        text += `${this.name}_bucket${withBound(formatValue(bound))} ${series.buckets[i]}\n`
+      })
+      text += `${this.name}_bucket${withBound('+Inf')} ${series.count}\n`
+      text += `${this.name}_sum${key} ${formatValue(series.sum)}\n`
+      text += `${this.name}_count${key} ${series.count}\n`
+    }
+    return text
+  }
+}
+
+/**
+ * Holds a set of metrics, and renders them in the Prometheus text exposition format.
+ * Several engines may share a registry, in which case they share their metrics as well.
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Counter | Histogram>()
+
+  /**
+   * Registers a counter, or returns the counter already registered under the name.
+   * @param name - The name of the metric.
+   * @param help - Describes what the metric measures.
+   * @param labelNames - The names of the labels distinguishing the series of the metric.
+   */
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, Counter, () => new Counter(name, help, labelNames))
+  }
+
+  /**
+   * Registers a histogram, or returns the histogram already registered under the name.
+   * @param name - The name of the metric.
+   * @param help - Describes what the metric measures.
+   * @param labelNames - The names of the labels distinguishing the series of the metric.
+   * @param buckets - The upper bounds of the buckets, in increasing order. Defaults to bounds suited to timing requests in seconds.
+   */
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(name, Histogram, () => new Histogram(name, help, labelNames, buckets))
+  }
+
+  /**
+   * Renders every registered metric in the Prometheus text exposition format, ready to be served to a Prometheus scraper.
+   */
+  toPrometheusText(): string {
+    return Array.from(this.metrics.values()).map(metric => metric.render()).join('')
+  }
+
+  private register<M extends Counter | Histogram>(name: string, type: new (...args: any[]) => M, create: () => M): M {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`)
+    }
+    const existing = this.metrics.get(name)
+    if (existing !== undefined) {
+      if (!(existing instanceof type)) {
+        throw new Error(`A different type of metric is already registered as ${name}.`)
+      }
+      return existing
+    }
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+/**
+ * Renders the labels of a series, such as {topic="tm_ship"}, which also identifies the series within its metric.
+ */
+const seriesKey = (labelNames: string[], labels: MetricLabels): string => {
+  for (const name of Object.keys(labels)) {
+    if (!labelNames.includes(name)) {
+      throw new Error(`Unknown label: ${name}`)
+    }
+  }
+  const rendered = labelNames
+    .filter(name => labels[name] !== undefined)
+    .map(name => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+  return rendered.length === 0 ? '' : `{${rendered.join(',')}}`
+}
+
+const header = (name: string, help: string, type: string): string =>
+  `# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}\n# TYPE ${name} ${type}\n`
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
@@ -0,0 +1,11 @@
+/**
+ * Thrown by a Storage Engine when asked to insert a record that already exists, such as an output already admitted into a topic or a transaction already applied to a topic.
+ *
+ * This lets the Overlay Services Engine recognize a transaction processed concurrently by another submission as a duplicate.
+ */
+export class DuplicateRecordError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DuplicateRecordError'
+  }
+}
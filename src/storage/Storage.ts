@@ -10,6 +10,53 @@ export interface AppliedTransaction {
   topic: string
 }
 
+/**
+ * Represents a transaction waiting to be delivered to a peer.
+ */
+export interface PendingPropagation {
+  /** Identifies the pending propagation within storage */
+  id: number
+  /** The domain of the peer to deliver to */
+  domain: string
+  /** The topics to submit the transaction to */
+  topics: string[]
+  /** The transaction to deliver, in BEEF format */
+  beef: number[]
+  /** How many delivery attempts have failed */
+  attempts: number
+  /** When the next delivery attempt is due */
+  nextAttemptAt: Date
+  /** Why the most recent delivery attempt failed, if one did */
+  lastError?: string
+}
+
+/**
+ * Represents a notification that a lookup service failed to process, kept so that it can be retried.
+ * Later notifications about the same output for the same lookup service are kept the same way, without any attempts, until it is processed.
+ */
+export interface FailedNotification {
+  /** Identifies the failed notification within storage */
+  id: number
+  /** The name of the lookup service that failed to process the notification */
+  service: string
+  /** The hook of the lookup service that failed */
+  type: 'outputAdded' | 'outputSpent' | 'outputDeleted'
+  /** TXID of the output the notification is about */
+  txid: string
+  /** Output index of the output the notification is about */
+  outputIndex: number
+  /** The topic of the output */
+  topic: string
+  /** The locking script of the output, for outputAdded notifications */
+  outputScript?: number[]
+  /** How many attempts to process the notification have failed */
+  attempts: number
+  /** When the next automatic retry is due, or undefined once automatic retries have been exhausted */
+  nextAttemptAt?: Date
+  /** Why the most recent attempt failed */
+  lastError: string
+}
+
 /**
  * Defines the Storage Engine interface used internally by the Overlay Services Engine.
  */
@@ -17,6 +64,7 @@ export interface Storage {
   /**
    * Adds a new output to storage
    * @param utxo — The output to add
+   * @throws {DuplicateRecordError} When the output is already stored within its topic
    */
   insertOutput: (utxo: Output) => Promise<void>
 
@@ -36,7 +84,36 @@ export interface Storage {
   findOutputsForTransaction: (txid: string) => Promise<Output[]>
 
   /**
-   * Deletes an output from storage
+   * Finds stored outputs a page at a time, ordered by TXID, then output index, then topic
+   * @param topic — Only finds outputs stored in this topic, when given
+   * @param spent — Only finds outputs with this spent status, when given
+   * @param after — Only finds outputs ordered after this one, which is typically the last output of the previous page
+   * @param limit — The greatest number of outputs to return
+   */
+  findOutputs: (topic?: string, spent?: boolean, after?: { txid: string, outputIndex: number, topic: string }, limit?: number) => Promise<Output[]>
+
+  /**
+   * Finds the transactions of stored outputs which do not have a merkle proof yet, or which are marked as awaiting a new one, ordered by TXID
+   * @param after — Only finds transactions whose TXID is ordered after this one, which is typically the last TXID of the previous page
+   * @param limit — The greatest number of TXIDs to return
+   */
+  findUnprovenTransactions: (after?: string, limit?: number) => Promise<string[]>
+
+  /**
+   * Marks a transaction as awaiting a new merkle proof, such as when the block its proof is for has been orphaned.
+   * The BEEF of its outputs keeps the old proof, since a BEEF cannot carry a transaction without either a proof or its ancestors.
+   * @param txid — TXID of the transaction
+   */
+  markTransactionUnproven: (txid: string) => Promise<void>
+
+  /**
+   * Clears the mark of a transaction awaiting a new merkle proof, once one has been applied to the BEEF of its outputs
+   * @param txid — TXID of the transaction
+   */
+  markTransactionProven: (txid: string) => Promise<void>
+
+  /**
+   * Deletes an output from storage, along with whatever was stored for its transaction once no other output needs it
    * @param txid — The TXID of the output to delete
    * @param outputIndex — The index of the output to delete
    * @param topic — The topic where the output should be deleted
@@ -57,14 +134,34 @@ export interface Storage {
   * @param outputIndex — Index of the output to update
   * @param topic — Topic in which the output should be updated
   * @param consumedBy — The new set of outputs consumed by this output
+  *
+  * Only the list of this output changes, the outputsConsumed of the outputs on the other side are left as they are.
   */
   updateConsumedBy: (txid: string, outputIndex: number, topic: string, consumedBy: Array<{
     txid: string
     outputIndex: number
   }>) => Promise<void>
 
+  /**
+  * Updates which outputs were consumed by the transaction creating this output
+  * @param txid — TXID of the output to update
+  * @param outputIndex — Index of the output to update
+  * @param topic — Topic in which the output should be updated
+  * @param outputsConsumed — The new set of outputs consumed by the transaction creating this output
+  *
+  * Only the list of this output changes, the consumedBy of the outputs on the other side are left as they are.
+  */
+  updateOutputsConsumed: (txid: string, outputIndex: number, topic: string, outputsConsumed: Array<{
+    txid: string
+    outputIndex: number
+  }>) => Promise<void>
+
   /**
    * Updates the beef data on an output
+   *
+   * Transactions are shared between outputs, so the merkle proofs within the new BEEF also apply to every other output
+   * whose BEEF contains the proven transactions, within any topic. Proofs are only ever added or replaced this way, never removed.
+   * Nothing is updated when no output matches.
    * @param txid — TXID of the output to update
    * @param outputIndex — Index of the output to update
    * @param topic — Topic in which the output should be updated
@@ -75,6 +172,7 @@ export interface Storage {
   /**
    * Inserts record of the applied transaction
    * @param tx — The transaction to insert
+   * @throws {DuplicateRecordError} When the transaction is already recorded as applied to the topic
    */
   insertAppliedTransaction: (tx: AppliedTransaction) => Promise<void>
 
@@ -84,4 +182,77 @@ export interface Storage {
    * @returns Whether the transaction is already applied
    */
   doesAppliedTransactionExist: (tx: AppliedTransaction) => Promise<boolean>
+
+  /**
+   * Records a transaction waiting to be delivered to a peer
+   * @param propagation — The pending propagation to record
+   * @returns The ID of the recorded propagation
+   */
+  insertPropagation: (propagation: Omit<PendingPropagation, 'id'>) => Promise<number>
+
+  /**
+   * Finds transactions waiting to be delivered to peers, ordered by when their next delivery attempt is due
+   * @param dueBy — Only finds propagations whose next delivery attempt is due by this time, when given
+   * @param limit — The greatest number of propagations to return
+   */
+  findPendingPropagations: (dueBy?: Date, limit?: number) => Promise<PendingPropagation[]>
+
+  /**
+   * Records a failed attempt to deliver a transaction to a peer
+   * @param id — ID of the propagation to update
+   * @param attempts — How many delivery attempts have now failed
+   * @param nextAttemptAt — When the next delivery attempt is due
+   * @param lastError — Why the delivery attempt failed
+   */
+  updatePropagation: (id: number, attempts: number, nextAttemptAt: Date, lastError: string) => Promise<void>
+
+  /**
+   * Deletes a pending propagation, once it has been delivered or given up on
+   * @param id — ID of the propagation to delete
+   */
+  deletePropagation: (id: number) => Promise<void>
+
+  /**
+   * Records a notification that a lookup service failed to process
+   * @param notification — The failed notification to record
+   * @returns The ID of the recorded notification
+   */
+  insertFailedNotification: (notification: Omit<FailedNotification, 'id'>) => Promise<number>
+
+  /**
+   * Finds notifications that lookup services failed to process, in the order they were recorded
+   * @param limit — The greatest number of notifications to return
+   * @param output — Only finds notifications about this output within its topic
+   */
+  findFailedNotifications: (limit?: number, output?: { txid: string, outputIndex: number, topic: string }) => Promise<FailedNotification[]>
+
+  /**
+   * Finds a notification that a lookup service failed to process
+   * @param id — ID of the notification to find
+   */
+  findFailedNotification: (id: number) => Promise<FailedNotification | null>
+
+  /**
+   * Records another failed attempt to process a notification
+   * @param id — ID of the notification to update
+   * @param attempts — How many attempts have now failed
+   * @param nextAttemptAt — When the next automatic retry is due, or undefined if no more are to be made
+   * @param lastError — Why the attempt failed
+   */
+  updateFailedNotification: (id: number, attempts: number, nextAttemptAt: Date | undefined, lastError: string) => Promise<void>
+
+  /**
+   * Deletes a failed notification, once it has been processed or discarded
+   * @param id — ID of the notification to delete
+   */
+  deleteFailedNotification: (id: number) => Promise<void>
+
+  /**
+   * Runs an operation as a single unit of work.
+   * Every change made through the storage handed to the operation is committed together once the operation resolves, or rolled back together if it throws.
+   * Starting a unit of work from within another one joins the unit of work already in progress.
+   * @param scope — The operation to run, which receives the storage to use for the unit of work
+   * @returns The value resolved by the operation
+   */
+  transaction: <T>(scope: (storage: Storage) => Promise<T>) => Promise<T>
 }
@@ -0,0 +1,494 @@
+import { Transaction, MerklePath, LockingScript, UnlockingScript, Script } from '@bsv/sdk'
+import type { Storage } from './Storage.js'
+import type { Output } from '../Output.js'
+import { DuplicateRecordError } from './DuplicateRecordError.js'
+
+/**
+ * A single check that a Storage Engine behaves the way the Overlay Services Engine expects.
+ */
+export interface StorageConformanceTest {
+  /** Describes the behavior being checked */
+  name: string
+  /**
+   * Runs the check against a freshly created, empty storage engine.
+   * @param storage — The storage engine to check
+   * @throws When the storage engine does not behave as expected
+   */
+  run: (storage: Storage) => Promise<void>
+}
+
+/**
+ * The outcome of running a single conformance test.
+ */
+export interface StorageConformanceResult {
+  /** The name of the conformance test */
+  name: string
+  /** Whether the storage engine passed the test */
+  passed: boolean
+  /** The reason the test failed, if it did */
+  error?: Error
+}
+
+// A proven transaction with three outputs, and an unproven transaction spending its first output.
+// Real transactions are used because storage engines are free to interpret the BEEF they are given.
+const parentTX = new Transaction(1, [], [0, 1, 2].map(i => ({
+  lockingScript: new LockingScript(Script.fromASM(`OP_FALSE OP_RETURN 0${i}`).chunks),
+  satoshis: 1000 + i
+})))
+parentTX.merklePath = new MerklePath(800000, [[{ offset: 0, hash: parentTX.id('hex'), txid: true }, { offset: 1, duplicate: true }]])
+const childTX = new Transaction(1, [{
+  sourceTransaction: parentTX,
+  sourceTXID: parentTX.id('hex'),
+  sourceOutputIndex: 0,
+  unlockingScript: new UnlockingScript(),
+  sequence: 0xffffffff
+}], [0, 1].map(i => ({
+  lockingScript: new LockingScript(Script.fromASM(`OP_FALSE OP_RETURN 1${i}`).chunks),
+  satoshis: 500 + i
+})))
+const parentTXID = parentTX.id('hex')
+const childTXID = childTX.id('hex')
+
+const makeOutput = (tx: Transaction, outputIndex: number, overrides: Partial<Output> = {}): Output => ({
+  txid: tx.id('hex'),
+  outputIndex,
+  outputScript: tx.outputs[outputIndex].lockingScript.toBinary(),
+  satoshis: tx.outputs[outputIndex].satoshis as number,
+  topic: 'tm_conformance',
+  spent: false,
+  beef: tx.toBEEF(),
+  outputsConsumed: [],
+  consumedBy: [],
+  ...overrides
+})
+
+const sortOutputs = (outputs: Output[]): Output[] => [...outputs].sort((a, b) =>
+  a.txid.localeCompare(b.txid) || a.topic.localeCompare(b.topic) || a.outputIndex - b.outputIndex
+)
+
+/**
+ * Serializes a value to JSON with object keys in a consistent order, so that values can be compared structurally.
+ */
+const toCanonicalJSON = (value: unknown): string => JSON.stringify(value, (_, v) => {
+  if (v === null || typeof v !== 'object' || Array.isArray(v)) {
+    return v
+  }
+  return Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+})
+
+/**
+ * Throws when two values are not structurally equal.
+ */
+const assertEqual = (actual: unknown, expected: unknown, description: string): void => {
+  const actualJSON = toCanonicalJSON(actual)
+  const expectedJSON = toCanonicalJSON(expected)
+  if (actualJSON !== expectedJSON) {
+    throw new Error(`${description}: expected ${expectedJSON} but received ${String(actualJSON)}`)
+  }
+}
+
+/**
+ * Throws unless an operation rejects with a DuplicateRecordError.
+ */
+const assertRejectsAsDuplicate = async (operation: () => Promise<void>, description: string): Promise<void> => {
+  try {
+    await operation()
+  } catch (error) {
+    if (error instanceof DuplicateRecordError) return
+    throw new Error(`${description}: expected a DuplicateRecordError but received ${String(error)}`)
+  }
+  throw new Error(`${description}: expected a DuplicateRecordError but the operation succeeded`)
+}
+
+/**
+ * Every check a Storage Engine must pass to be used with the Overlay Services Engine.
+ *
+ * Each test expects a new, empty storage engine. Test frameworks can register each one as its own test, for example with Jest:
+ *
+ * ```ts
+ * for (const test of storageConformanceTests) {
+ *   it(test.name, async () => await test.run(await createStorage()))
+ * }
+ * ```
+ */
+export const storageConformanceTests: StorageConformanceTest[] = [
+  {
+    name: 'findOutput returns an inserted output exactly as it was inserted',
+    run: async storage => {
+      const output = makeOutput(childTX, 1, {
+        outputsConsumed: [{ txid: parentTXID, outputIndex: 0 }],
+        consumedBy: [{ txid: parentTXID, outputIndex: 2 }],
+        admittedAt: new Date(1720000000000)
+      })
+      await storage.insertOutput(output)
+      assertEqual(await storage.findOutput(childTXID, 1), output, 'findOutput without a topic')
+      assertEqual(await storage.findOutput(childTXID, 1, 'tm_conformance'), output, 'findOutput with a topic')
+    }
+  },
+  {
+    name: 'findOutput returns null when no output matches',
+    run: async storage => {
+      assertEqual(await storage.findOutput(parentTXID, 0), null, 'findOutput on empty storage')
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      assertEqual(await storage.findOutput(parentTXID, 1), null, 'findOutput with another output index')
+      assertEqual(await storage.findOutput(childTXID, 0), null, 'findOutput with another TXID')
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_other'), null, 'findOutput with another topic')
+    }
+  },
+  {
+    name: 'findOutput only returns outputs from the given topic',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one' }))
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_two', spent: true }))
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_one'), makeOutput(parentTX, 0, { topic: 'tm_one' }), 'findOutput in the first topic')
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_two'), makeOutput(parentTX, 0, { topic: 'tm_two', spent: true }), 'findOutput in the second topic')
+    }
+  },
+  {
+    name: 'findOutput filters by whether the output is spent',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      await storage.insertOutput(makeOutput(parentTX, 1, { spent: true }))
+      assertEqual(await storage.findOutput(parentTXID, 0, undefined, false), makeOutput(parentTX, 0), 'unspent output requested as unspent')
+      assertEqual(await storage.findOutput(parentTXID, 0, undefined, true), null, 'unspent output requested as spent')
+      assertEqual(await storage.findOutput(parentTXID, 1, undefined, true), makeOutput(parentTX, 1, { spent: true }), 'spent output requested as spent')
+      assertEqual(await storage.findOutput(parentTXID, 1, 'tm_conformance', false), null, 'spent output requested as unspent')
+    }
+  },
+  {
+    name: 'findOutputsForTransaction returns every output of the transaction across all topics',
+    run: async storage => {
+      assertEqual(await storage.findOutputsForTransaction(parentTXID), [], 'findOutputsForTransaction on empty storage')
+      const outputs = [
+        makeOutput(parentTX, 0, { topic: 'tm_one' }),
+        makeOutput(parentTX, 2, { topic: 'tm_one' }),
+        makeOutput(parentTX, 0, { topic: 'tm_two', spent: true })
+      ]
+      for (const output of outputs) {
+        await storage.insertOutput(output)
+      }
+      await storage.insertOutput(makeOutput(childTX, 0, { topic: 'tm_one' }))
+      assertEqual(sortOutputs(await storage.findOutputsForTransaction(parentTXID)), sortOutputs(outputs), 'findOutputsForTransaction')
+    }
+  },
+  {
+    name: 'findOutputs pages through outputs in order of TXID, output index and topic, filtered by topic and spent status',
+    run: async storage => {
+      assertEqual(await storage.findOutputs(), [], 'findOutputs on empty storage')
+      const outputs = [
+        makeOutput(childTX, 1, { topic: 'tm_two' }),
+        makeOutput(parentTX, 2, { topic: 'tm_one', spent: true }),
+        makeOutput(parentTX, 0, { topic: 'tm_two' }),
+        makeOutput(childTX, 0, { topic: 'tm_one' }),
+        makeOutput(parentTX, 0, { topic: 'tm_one' })
+      ]
+      for (const output of outputs) {
+        await storage.insertOutput(output)
+      }
+      const ordered = [...outputs].sort((a, b) =>
+        (a.txid < b.txid ? -1 : a.txid > b.txid ? 1 : 0) || a.outputIndex - b.outputIndex || (a.topic < b.topic ? -1 : 1)
+      )
+      assertEqual(await storage.findOutputs(), ordered, 'every output')
+      const firstPage = await storage.findOutputs(undefined, undefined, undefined, 2)
+      assertEqual(firstPage, ordered.slice(0, 2), 'first page')
+      assertEqual(await storage.findOutputs(undefined, undefined, firstPage[1], 2), ordered.slice(2, 4), 'second page')
+      assertEqual(await storage.findOutputs(undefined, undefined, ordered[3], 2), ordered.slice(4), 'last page')
+      assertEqual(await storage.findOutputs('tm_one'), ordered.filter(o => o.topic === 'tm_one'), 'outputs in a topic')
+      assertEqual(await storage.findOutputs('tm_one', false), ordered.filter(o => o.topic === 'tm_one' && !o.spent), 'unspent outputs in a topic')
+      assertEqual(await storage.findOutputs(undefined, true), ordered.filter(o => o.spent), 'spent outputs')
+    }
+  },
+  {
+    name: 'findUnprovenTransactions lists the transactions of stored outputs until they are proven',
+    run: async storage => {
+      assertEqual(await storage.findUnprovenTransactions(), [], 'findUnprovenTransactions on empty storage')
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      await storage.insertOutput(makeOutput(childTX, 0, { topic: 'tm_one' }))
+      await storage.insertOutput(makeOutput(childTX, 1, { topic: 'tm_two' }))
+      assertEqual(await storage.findUnprovenTransactions(), [childTXID], 'unproven transactions')
+      assertEqual(await storage.findUnprovenTransactions(undefined, 0), [], 'empty page')
+      assertEqual(await storage.findUnprovenTransactions(childTXID), [], 'page after the last transaction')
+      const provenChildTX = Transaction.fromBEEF(childTX.toBEEF())
+      provenChildTX.merklePath = new MerklePath(800001, [[{ offset: 0, hash: childTXID, txid: true }, { offset: 1, duplicate: true }]])
+      await storage.updateOutputBeef(childTXID, 0, 'tm_one', provenChildTX.toBEEF())
+      await storage.updateOutputBeef(childTXID, 1, 'tm_two', provenChildTX.toBEEF())
+      assertEqual(await storage.findUnprovenTransactions(), [], 'unproven transactions after proving')
+    }
+  },
+  {
+    name: 'Transactions marked as awaiting a new proof are listed as unproven until marked proven again',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      await storage.markTransactionUnproven(parentTXID)
+      assertEqual(await storage.findUnprovenTransactions(), [parentTXID], 'unproven transactions after marking')
+      assertEqual((await storage.findOutput(parentTXID, 0, 'tm_conformance'))?.beef, parentTX.toBEEF(), 'BEEF of the marked transaction')
+      await storage.markTransactionProven(parentTXID)
+      assertEqual(await storage.findUnprovenTransactions(), [], 'unproven transactions after marking as proven')
+    }
+  },
+  {
+    name: 'deleteOutput forgets the state of a transaction once none of its outputs remain, keeping the ancestors of others',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one' }))
+      await storage.markTransactionUnproven(parentTXID)
+      await storage.deleteOutput(parentTXID, 0, 'tm_one')
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one' }))
+      assertEqual(await storage.findUnprovenTransactions(), [], 'unproven transactions after storing the output again')
+      await storage.insertOutput(makeOutput(childTX, 0, { topic: 'tm_two' }))
+      await storage.deleteOutput(parentTXID, 0, 'tm_one')
+      assertEqual(await storage.findOutput(childTXID, 0, 'tm_two'), makeOutput(childTX, 0, { topic: 'tm_two' }), 'output spending the deleted output')
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one' }))
+      await storage.deleteOutput(childTXID, 0, 'tm_two')
+      await storage.deleteOutput(parentTXID, 0, 'tm_one')
+      assertEqual(await storage.findOutputsForTransaction(parentTXID), [], 'outputs of the parent transaction')
+      assertEqual(await storage.findOutputsForTransaction(childTXID), [], 'outputs of the child transaction')
+    }
+  },
+  {
+    name: 'deleteOutput only deletes the output from the given topic',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one' }))
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_two' }))
+      await storage.insertOutput(makeOutput(parentTX, 1, { topic: 'tm_one' }))
+      await storage.deleteOutput(parentTXID, 0, 'tm_one')
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_one'), null, 'deleted output')
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_two'), makeOutput(parentTX, 0, { topic: 'tm_two' }), 'same output in another topic')
+      assertEqual(await storage.findOutput(parentTXID, 1, 'tm_one'), makeOutput(parentTX, 1, { topic: 'tm_one' }), 'another output in the same topic')
+    }
+  },
+  {
+    name: 'markUTXOAsSpent only marks the output from the given topic as spent',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one' }))
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_two' }))
+      await storage.markUTXOAsSpent(parentTXID, 0, 'tm_one')
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_one'), makeOutput(parentTX, 0, { topic: 'tm_one', spent: true }), 'spent output')
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_two'), makeOutput(parentTX, 0, { topic: 'tm_two' }), 'same output in another topic')
+      assertEqual(await storage.findOutput(parentTXID, 0, undefined, false), makeOutput(parentTX, 0, { topic: 'tm_two' }), 'unspent output across topics')
+    }
+  },
+  {
+    name: 'updateConsumedBy replaces the consuming outputs, which survive being read back',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      const consumedBy = [{ txid: childTXID, outputIndex: 0 }, { txid: childTXID, outputIndex: 1 }]
+      await storage.updateConsumedBy(parentTXID, 0, 'tm_conformance', consumedBy)
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0, { consumedBy }), 'findOutput after updateConsumedBy')
+      assertEqual(await storage.findOutputsForTransaction(parentTXID), [makeOutput(parentTX, 0, { consumedBy })], 'findOutputsForTransaction after updateConsumedBy')
+      await storage.updateConsumedBy(parentTXID, 0, 'tm_conformance', [])
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0), 'findOutput after clearing consumedBy')
+    }
+  },
+  {
+    name: 'updateOutputsConsumed replaces the consumed outputs, which survive being read back',
+    run: async storage => {
+      const outputsConsumed = [{ txid: parentTXID, outputIndex: 0 }]
+      await storage.insertOutput(makeOutput(childTX, 0, { outputsConsumed }))
+      await storage.updateOutputsConsumed(childTXID, 0, 'tm_conformance', [])
+      assertEqual(await storage.findOutput(childTXID, 0), makeOutput(childTX, 0), 'findOutput after clearing outputsConsumed')
+      await storage.updateOutputsConsumed(childTXID, 0, 'tm_conformance', outputsConsumed)
+      assertEqual(await storage.findOutput(childTXID, 0), makeOutput(childTX, 0, { outputsConsumed }), 'findOutput after updateOutputsConsumed')
+    }
+  },
+  {
+    name: 'consumedBy and outputsConsumed are kept independently by the outputs on either side',
+    run: async storage => {
+      const consumed = { txid: parentTXID, outputIndex: 0 }
+      const consuming = { txid: childTXID, outputIndex: 0 }
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      await storage.insertOutput(makeOutput(childTX, 0, { outputsConsumed: [consumed] }))
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0), 'consumed output after inserting the consuming output')
+      await storage.updateConsumedBy(parentTXID, 0, 'tm_conformance', [consuming])
+      await storage.updateConsumedBy(parentTXID, 0, 'tm_conformance', [])
+      assertEqual(await storage.findOutput(childTXID, 0), makeOutput(childTX, 0, { outputsConsumed: [consumed] }), 'consuming output after clearing consumedBy')
+      await storage.updateConsumedBy(parentTXID, 0, 'tm_conformance', [consuming])
+      await storage.updateOutputsConsumed(childTXID, 0, 'tm_conformance', [])
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0, { consumedBy: [consuming] }), 'consumed output after clearing outputsConsumed')
+    }
+  },
+  {
+    name: 'deleteOutput leaves none of the consumed or consuming outputs of the output behind',
+    run: async storage => {
+      const consumed = { txid: parentTXID, outputIndex: 0 }
+      const consuming = { txid: childTXID, outputIndex: 0 }
+      await storage.insertOutput(makeOutput(parentTX, 0, { consumedBy: [consuming] }))
+      await storage.insertOutput(makeOutput(childTX, 0, { outputsConsumed: [consumed], consumedBy: [{ txid: childTXID, outputIndex: 1 }] }))
+      await storage.deleteOutput(childTXID, 0, 'tm_conformance')
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0, { consumedBy: [consuming] }), 'consumed output after deleting the consuming output')
+      await storage.insertOutput(makeOutput(childTX, 0))
+      assertEqual(await storage.findOutput(childTXID, 0), makeOutput(childTX, 0), 'output inserted again after its deletion')
+      await storage.deleteOutput(parentTXID, 0, 'tm_conformance')
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0), 'consumed output inserted again after its deletion')
+    }
+  },
+  {
+    name: 'updateOutputBeef applies the proofs within the BEEF to every output containing the proven transactions',
+    run: async storage => {
+      const grandchildTX = new Transaction(1, [{
+        sourceTransaction: childTX,
+        sourceTXID: childTXID,
+        sourceOutputIndex: 1,
+        unlockingScript: new UnlockingScript(),
+        sequence: 0xffffffff
+      }], [{ lockingScript: new LockingScript(Script.fromASM('OP_FALSE OP_RETURN 20').chunks), satoshis: 250 }])
+      await storage.insertOutput(makeOutput(childTX, 0, { topic: 'tm_one' }))
+      await storage.insertOutput(makeOutput(childTX, 0, { topic: 'tm_two' }))
+      await storage.insertOutput(makeOutput(grandchildTX, 0, { topic: 'tm_two' }))
+      const provenChildTX = Transaction.fromBEEF(childTX.toBEEF())
+      provenChildTX.merklePath = new MerklePath(800001, [[{ offset: 0, hash: childTXID, txid: true }, { offset: 1, duplicate: true }]])
+      await storage.updateOutputBeef(childTXID, 0, 'tm_other', provenChildTX.toBEEF())
+      assertEqual(await storage.findOutput(childTXID, 0, 'tm_one'), makeOutput(childTX, 0, { topic: 'tm_one' }), 'output after updating an output that is not stored')
+      await storage.updateOutputBeef(childTXID, 0, 'tm_one', provenChildTX.toBEEF())
+      assertEqual(await storage.findOutput(childTXID, 0, 'tm_one'), makeOutput(childTX, 0, { topic: 'tm_one', beef: provenChildTX.toBEEF() }), 'updated output')
+      assertEqual(await storage.findOutput(childTXID, 0, 'tm_two'), makeOutput(childTX, 0, { topic: 'tm_two', beef: provenChildTX.toBEEF() }), 'same output in another topic')
+      const provenGrandchildTX = Transaction.fromBEEF(grandchildTX.toBEEF())
+      provenGrandchildTX.inputs[0].sourceTransaction = provenChildTX
+      assertEqual(await storage.findOutput(grandchildTX.id('hex'), 0, 'tm_two'), makeOutput(grandchildTX, 0, { topic: 'tm_two', beef: provenGrandchildTX.toBEEF() }), 'output whose BEEF contains the proven transaction')
+    }
+  },
+  {
+    name: 'Applied transactions are tracked per topic',
+    run: async storage => {
+      assertEqual(await storage.doesAppliedTransactionExist({ txid: parentTXID, topic: 'tm_one' }), false, 'before insertion')
+      await storage.insertAppliedTransaction({ txid: parentTXID, topic: 'tm_one' })
+      assertEqual(await storage.doesAppliedTransactionExist({ txid: parentTXID, topic: 'tm_one' }), true, 'same transaction and topic')
+      assertEqual(await storage.doesAppliedTransactionExist({ txid: parentTXID, topic: 'tm_two' }), false, 'same transaction in another topic')
+      assertEqual(await storage.doesAppliedTransactionExist({ txid: childTXID, topic: 'tm_one' }), false, 'another transaction in the same topic')
+    }
+  },
+  {
+    name: 'Inserting an output already stored within its topic rejects with a DuplicateRecordError',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one' }))
+      await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_two' }))
+      await assertRejectsAsDuplicate(async () => await storage.insertOutput(makeOutput(parentTX, 0, { topic: 'tm_one', spent: true })), 'second insertion')
+      assertEqual(await storage.findOutputsForTransaction(parentTXID).then(outputs => outputs.length), 2, 'number of stored outputs')
+      assertEqual(await storage.findOutput(parentTXID, 0, 'tm_one'), makeOutput(parentTX, 0, { topic: 'tm_one' }), 'originally inserted output')
+    }
+  },
+  {
+    name: 'Inserting an applied transaction already recorded for its topic rejects with a DuplicateRecordError',
+    run: async storage => {
+      await storage.insertAppliedTransaction({ txid: parentTXID, topic: 'tm_one' })
+      await storage.insertAppliedTransaction({ txid: parentTXID, topic: 'tm_two' })
+      await assertRejectsAsDuplicate(async () => await storage.insertAppliedTransaction({ txid: parentTXID, topic: 'tm_one' }), 'second insertion')
+    }
+  },
+  {
+    name: 'Pending propagations are found by when they are due, and can be updated and deleted',
+    run: async storage => {
+      assertEqual(await storage.findPendingPropagations(), [], 'findPendingPropagations on empty storage')
+      const later = { domain: 'https://later.example.com', topics: ['tm_one', 'tm_two'], beef: childTX.toBEEF(), attempts: 0, nextAttemptAt: new Date(2000) }
+      const sooner = { domain: 'https://sooner.example.com', topics: ['tm_one'], beef: parentTX.toBEEF(), attempts: 2, nextAttemptAt: new Date(1000), lastError: 'Unreachable' }
+      const laterId = await storage.insertPropagation(later)
+      const soonerId = await storage.insertPropagation(sooner)
+      if (laterId === soonerId) throw new Error('Pending propagations were given the same ID')
+      assertEqual(await storage.findPendingPropagations(), [{ ...sooner, id: soonerId }, { ...later, id: laterId }], 'every pending propagation')
+      assertEqual(await storage.findPendingPropagations(new Date(1500)), [{ ...sooner, id: soonerId }], 'due pending propagations')
+      assertEqual(await storage.findPendingPropagations(undefined, 1), [{ ...sooner, id: soonerId }], 'limited pending propagations')
+
+      await storage.updatePropagation(soonerId, 3, new Date(3000), 'Still unreachable')
+      assertEqual(await storage.findPendingPropagations(), [
+        { ...later, id: laterId },
+        { ...sooner, id: soonerId, attempts: 3, nextAttemptAt: new Date(3000), lastError: 'Still unreachable' }
+      ], 'pending propagations after an update')
+
+      await storage.deletePropagation(laterId)
+      assertEqual(await storage.findPendingPropagations().then(propagations => propagations.map(p => p.id)), [soonerId], 'pending propagations after a deletion')
+    }
+  },
+  {
+    name: 'Failed notifications are found in the order they were recorded or by ID, and can be updated and deleted',
+    run: async storage => {
+      assertEqual(await storage.findFailedNotifications(), [], 'findFailedNotifications on empty storage')
+      const added = { service: 'ls_one', type: 'outputAdded' as const, txid: parentTXID, outputIndex: 0, topic: 'tm_one', outputScript: [0x51], attempts: 1, nextAttemptAt: new Date(2000), lastError: 'Unavailable' }
+      const spent = { service: 'ls_two', type: 'outputSpent' as const, txid: parentTXID, outputIndex: 0, topic: 'tm_one', attempts: 1, nextAttemptAt: new Date(1000), lastError: 'Timed out' }
+      const addedId = await storage.insertFailedNotification(added)
+      const spentId = await storage.insertFailedNotification(spent)
+      if (addedId === spentId) throw new Error('Failed notifications were given the same ID')
+      assertEqual(await storage.findFailedNotifications(), [{ ...added, id: addedId }, { ...spent, id: spentId }], 'every failed notification')
+      assertEqual(await storage.findFailedNotifications(1), [{ ...added, id: addedId }], 'limited failed notifications')
+      assertEqual(await storage.findFailedNotification(spentId), { ...spent, id: spentId }, 'failed notification by ID')
+      const other = { ...spent, service: 'ls_one', outputIndex: 1 }
+      const otherId = await storage.insertFailedNotification(other)
+      assertEqual(await storage.findFailedNotifications(undefined, { txid: parentTXID, outputIndex: 1, topic: 'tm_one' }), [{ ...other, id: otherId }], 'failed notifications about an output')
+      assertEqual(await storage.findFailedNotifications(undefined, { txid: parentTXID, outputIndex: 0, topic: 'tm_two' }), [], 'failed notifications about an output in another topic')
+      await storage.deleteFailedNotification(otherId)
+
+      await storage.updateFailedNotification(addedId, 2, undefined, 'Still unavailable')
+      assertEqual(await storage.findFailedNotifications(), [
+        { ...added, id: addedId, attempts: 2, nextAttemptAt: undefined, lastError: 'Still unavailable' },
+        { ...spent, id: spentId }
+      ], 'failed notifications after an update')
+
+      await storage.deleteFailedNotification(spentId)
+      assertEqual(await storage.findFailedNotifications().then(notifications => notifications.map(n => n.id)), [addedId], 'failed notifications after a deletion')
+      assertEqual(await storage.findFailedNotification(spentId), null, 'deleted failed notification')
+    }
+  },
+  {
+    name: 'A unit of work commits every change made through it',
+    run: async storage => {
+      const result = await storage.transaction(async trx => {
+        await trx.insertOutput(makeOutput(parentTX, 0))
+        await trx.markUTXOAsSpent(parentTXID, 0, 'tm_conformance')
+        await trx.insertAppliedTransaction({ txid: childTXID, topic: 'tm_conformance' })
+        assertEqual(await trx.findOutput(parentTXID, 0), makeOutput(parentTX, 0, { spent: true }), 'reading back within the unit of work')
+        return 'committed'
+      })
+      assertEqual(result, 'committed', 'value resolved by the unit of work')
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0, { spent: true }), 'committed output')
+      assertEqual(await storage.doesAppliedTransactionExist({ txid: childTXID, topic: 'tm_conformance' }), true, 'committed applied transaction')
+    }
+  },
+  {
+    name: 'A unit of work rolls back every change made through it when it fails, including nested units of work',
+    run: async storage => {
+      await storage.insertOutput(makeOutput(parentTX, 0))
+      let rejected = false
+      try {
+        await storage.transaction(async trx => {
+          await trx.markUTXOAsSpent(parentTXID, 0, 'tm_conformance')
+          await trx.insertOutput(makeOutput(childTX, 0))
+          await trx.transaction(async nested => {
+            await nested.deleteOutput(parentTXID, 0, 'tm_conformance')
+            await nested.insertAppliedTransaction({ txid: childTXID, topic: 'tm_conformance' })
+          })
+          throw new Error('Conformance failure')
+        })
+      } catch (error) {
+        rejected = (error as Error).message === 'Conformance failure'
+      }
+      assertEqual(rejected, true, 'unit of work rejects with the error thrown within it')
+      assertEqual(await storage.findOutput(parentTXID, 0), makeOutput(parentTX, 0), 'output changed within the unit of work')
+      assertEqual(await storage.findOutput(childTXID, 0), null, 'output inserted within the unit of work')
+      assertEqual(await storage.doesAppliedTransactionExist({ txid: childTXID, topic: 'tm_conformance' }), false, 'applied transaction inserted within the unit of work')
+    }
+  }
+]
+
+/**
+ * Runs every conformance test, each against its own newly created storage engine.
+ * @param createStorage — Creates a new, empty storage engine
+ * @param destroyStorage — Releases any resources held by a storage engine once its test has finished
+ * @returns The outcome of every conformance test
+ */
+export const runStorageConformanceSuite = async (
+  createStorage: () => Promise<Storage>,
+  destroyStorage?: (storage: Storage) => Promise<void>
+): Promise<StorageConformanceResult[]> => {
+  const results: StorageConformanceResult[] = []
+  for (const test of storageConformanceTests) {
+    const storage = await createStorage()
+    try {
+      await test.run(storage)
+      results.push({ name: test.name, passed: true })
+    } catch (error) {
+      results.push({ name: test.name, passed: false, error: error as Error })
+    } finally {
+      await destroyStorage?.(storage)
+    }
+  }
+  return results
+}
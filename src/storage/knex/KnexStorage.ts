@@ -1,12 +1,18 @@
-import { Storage } from '../Storage.js'
+import { Storage, PendingPropagation, FailedNotification } from '../Storage.js'
 import { Knex } from 'knex'
+import { Transaction, MerklePath } from '@bsv/sdk'
 import type { Output } from '../../Output.js'
+import { DuplicateRecordError } from '../DuplicateRecordError.js'
+import { Logger } from '../../Logger.js'
+import { ConsoleLogger } from '../../ConsoleLogger.js'
 
 export class KnexStorage implements Storage {
   knex: Knex
+  logger: Logger
 
-  constructor(knex: Knex) {
+  constructor(knex: Knex, logger: Logger = new ConsoleLogger()) {
     this.knex = knex
+    this.logger = logger
   }
 
   async findOutput(txid: string, outputIndex: number, topic?: string, spent?: boolean): Promise<Output | null> {
@@ -22,58 +28,129 @@ export class KnexStorage implements Storage {
     if (topic !== undefined) search.topic = topic
     if (spent !== undefined) search.spent = spent
     const [output] = await this.knex('outputs').where(search).select(
-      'txid', 'outputIndex', 'outputScript', 'topic', 'satoshis', 'beef', 'outputsConsumed', 'spent', 'consumedBy'
+      'txid', 'outputIndex', 'outputScript', 'topic', 'satoshis', 'spent', 'admittedAt'
     )
     if (output === undefined || output === null) {
       return null
     }
-    return {
-      ...output,
-      outputScript: [...output.outputScript],
-      beef: [...output.beef],
-      spent: Boolean(output.spent),
-      outputsConsumed: JSON.parse(output.outputsConsumed),
-      consumedBy: JSON.parse(output.consumedBy)
-    }
+    return await this.hydrateOutput(output, new Map())
   }
 
   async findOutputsForTransaction(txid: string): Promise<Output[]> {
     const outputs = await this.knex('outputs').where({ txid }).select(
-      'txid', 'outputIndex', 'outputScript', 'topic', 'satoshis', 'beef', 'outputsConsumed', 'spent', 'consumedBy'
+      'txid', 'outputIndex', 'outputScript', 'topic', 'satoshis', 'spent', 'admittedAt'
     )
 
     if (outputs === undefined || outputs.length === 0) {
       return []
     }
 
-    return outputs.map(output => ({
-      ...output,
-      outputScript: [...output.outputScript],
-      beef: [...output.beef],
-      spent: Boolean(output.spent),
-      outputsConsumed: JSON.parse(output.outputsConsumed),
-      consumedBy: JSON.parse(output.consumedBy)
-    }))
+    // All of the outputs share the same transaction, so its BEEF is only assembled once
+    const transactions = new Map<string, Transaction>()
+    const hydratedOutputs: Output[] = []
+    for (const output of outputs) {
+      hydratedOutputs.push(await this.hydrateOutput(output, transactions))
+    }
+    return hydratedOutputs
+  }
+
+  async findOutputs(topic?: string, spent?: boolean, after?: { txid: string, outputIndex: number, topic: string }, limit?: number): Promise<Output[]> {
+    const query = this.knex('outputs')
+    if (topic !== undefined) query.where({ topic })
+    if (spent !== undefined) query.where({ spent })
+    if (after !== undefined) {
+      query.where(builder => {
+        void builder.where('txid', '>', after.txid)
+          .orWhere(b => { void b.where('txid', after.txid).andWhere('outputIndex', '>', after.outputIndex) })
+          .orWhere(b => { void b.where({ txid: after.txid, outputIndex: after.outputIndex }).andWhere('topic', '>', after.topic) })
+      })
+    }
+    if (limit !== undefined) query.limit(limit)
+    const outputs = await query.orderBy(['txid', 'outputIndex', 'topic']).select(
+      'txid', 'outputIndex', 'outputScript', 'topic', 'satoshis', 'spent', 'admittedAt'
+    )
+
+    // Transactions shared between the outputs, including common ancestors, are only loaded once
+    const transactions = new Map<string, Transaction>()
+    const hydratedOutputs: Output[] = []
+    for (const output of outputs) {
+      hydratedOutputs.push(await this.hydrateOutput(output, transactions))
+    }
+    return hydratedOutputs
+  }
+
+  async findUnprovenTransactions(after?: string, limit?: number): Promise<string[]> {
+    const query = this.knex('outputs')
+      .join('transactions', 'outputs.txid', 'transactions.txid')
+      .where(builder => { void builder.whereNull('transactions.proof').orWhere('transactions.awaitingProof', true) })
+    if (after !== undefined) query.where('outputs.txid', '>', after)
+    if (limit !== undefined) query.limit(limit)
+    const transactions = await query.distinct('outputs.txid').orderBy('outputs.txid')
+    return transactions.map(t => t.txid)
   }
 
+  async markTransactionUnproven(txid: string): Promise<void> {
+    await this.knex('transactions').where({ txid }).update({ awaitingProof: true })
+  }
+
+  async markTransactionProven(txid: string): Promise<void> {
+    await this.knex('transactions').where({ txid }).update({ awaitingProof: false })
+  }
 
   async deleteOutput(txid: string, outputIndex: number, topic: string): Promise<void> {
-    await this.knex('outputs').where({
-      txid, outputIndex, topic
-    }).del()
+    await this.inTransaction(async knex => {
+      await knex('outputs').where({
+        txid, outputIndex, topic
+      }).del()
+      // Removes the edges listed by the output, leaving those listed by the outputs on the other side
+      const outputsConsumed = knex('output_edges').where({
+        topic,
+        consumingTxid: txid,
+        consumingOutputIndex: outputIndex,
+        side: 'outputsConsumed'
+      })
+      const consumedBy = knex('output_edges').where({
+        topic,
+        consumedTxid: txid,
+        consumedOutputIndex: outputIndex,
+        side: 'consumedBy'
+      })
+      const referencedTxids = [
+        ...await outputsConsumed.clone().pluck('consumedTxid'),
+        ...await consumedBy.clone().pluck('consumingTxid')
+      ]
+      await outputsConsumed.del()
+      await consumedBy.del()
+      await this.collectTransactions(knex, [txid, ...referencedTxids])
+    })
   }
 
   async insertOutput(output: Output): Promise<void> {
-    await this.knex('outputs').insert({
-      txid: output.txid,
-      outputIndex: Number(output.outputIndex),
-      outputScript: Buffer.from(output.outputScript),
-      topic: output.topic,
-      satoshis: Number(output.satoshis),
-      beef: Buffer.from(output.beef),
-      outputsConsumed: JSON.stringify(output.outputsConsumed),
-      consumedBy: JSON.stringify(output.consumedBy),
-      spent: output.spent
+    await this.inTransaction(async knex => {
+      await this.storeTransactions(knex, output.beef, false)
+      try {
+        await knex('outputs').insert({
+          txid: output.txid,
+          outputIndex: Number(output.outputIndex),
+          outputScript: Buffer.from(output.outputScript),
+          topic: output.topic,
+          satoshis: Number(output.satoshis),
+          spent: output.spent,
+          admittedAt: output.admittedAt?.getTime() ?? null
+        })
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          this.logger.debug('Rejected an output already stored within its topic', { txid: output.txid, outputIndex: output.outputIndex, topic: output.topic })
+          throw new DuplicateRecordError(`Output ${output.txid}.${output.outputIndex} is already stored in topic ${output.topic}`)
+        }
+        throw error
+      }
+      for (const consumed of output.outputsConsumed) {
+        await this.insertEdge(knex, output.topic, consumed, output, 'outputsConsumed')
+      }
+      for (const consuming of output.consumedBy) {
+        await this.insertEdge(knex, output.topic, output, consuming, 'consumedBy')
+      }
     })
   }
 
@@ -86,26 +163,61 @@ export class KnexStorage implements Storage {
   }
 
   async updateConsumedBy(txid: string, outputIndex: number, topic: string, consumedBy: Array<{ txid: string, outputIndex: number }>): Promise<void> {
-    await this.knex('outputs').where({
-      txid,
-      outputIndex,
-      topic
-    }).update('consumedBy', consumedBy)
+    await this.inTransaction(async knex => {
+      const edges = knex('output_edges').where({
+        topic,
+        consumedTxid: txid,
+        consumedOutputIndex: outputIndex,
+        side: 'consumedBy'
+      })
+      const referencedTxids: string[] = await edges.clone().pluck('consumingTxid')
+      await edges.del()
+      for (const consuming of consumedBy) {
+        await this.insertEdge(knex, topic, { txid, outputIndex }, consuming, 'consumedBy')
+      }
+      await this.collectTransactions(knex, referencedTxids)
+    })
+  }
+
+  async updateOutputsConsumed(txid: string, outputIndex: number, topic: string, outputsConsumed: Array<{ txid: string, outputIndex: number }>): Promise<void> {
+    await this.inTransaction(async knex => {
+      const edges = knex('output_edges').where({
+        topic,
+        consumingTxid: txid,
+        consumingOutputIndex: outputIndex,
+        side: 'outputsConsumed'
+      })
+      const referencedTxids: string[] = await edges.clone().pluck('consumedTxid')
+      await edges.del()
+      for (const consumed of outputsConsumed) {
+        await this.insertEdge(knex, topic, consumed, { txid, outputIndex }, 'outputsConsumed')
+      }
+      await this.collectTransactions(knex, referencedTxids)
+    })
   }
 
   async updateOutputBeef(txid: string, outputIndex: number, topic: string, beef: number[]): Promise<void> {
-    await this.knex('outputs').where({
-      txid,
-      outputIndex,
-      topic
-    }).update('beef', Buffer.from(beef))
+    // Transactions are shared between outputs, so the proofs apply to every output built from the same transactions
+    await this.inTransaction(async knex => {
+      const output = await knex('outputs').where({ txid, outputIndex, topic }).first('id')
+      if (output === undefined) return
+      await this.storeTransactions(knex, beef, true)
+    })
   }
 
   async insertAppliedTransaction(tx: { txid: string, topic: string }): Promise<void> {
-    await this.knex('applied_transactions').insert({
-      txid: tx.txid,
-      topic: tx.topic
-    })
+    try {
+      await this.knex('applied_transactions').insert({
+        txid: tx.txid,
+        topic: tx.topic
+      })
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        this.logger.debug('Rejected a transaction already applied to its topic', { txid: tx.txid, topic: tx.topic })
+        throw new DuplicateRecordError(`Transaction ${tx.txid} is already applied to topic ${tx.topic}`)
+      }
+      throw error
+    }
   }
 
   async doesAppliedTransactionExist(tx: { txid: string, topic: string }): Promise<boolean> {
@@ -115,4 +227,288 @@ export class KnexStorage implements Storage {
     }).select('txid', 'topic')
     return appliedTransactions.length > 0
   }
-}
\ No newline at end of file
+
+  async insertPropagation(propagation: Omit<PendingPropagation, 'id'>): Promise<number> {
+    const [inserted] = await this.knex('propagations').insert({
+      domain: propagation.domain,
+      topics: JSON.stringify(propagation.topics),
+      beef: Buffer.from(propagation.beef),
+      attempts: propagation.attempts,
+      nextAttemptAt: propagation.nextAttemptAt.getTime(),
+      lastError: propagation.lastError ?? null
+    }, ['id'])
+    return Number(typeof inserted === 'object' ? inserted.id : inserted)
+  }
+
+  async findPendingPropagations(dueBy?: Date, limit?: number): Promise<PendingPropagation[]> {
+    const query = this.knex('propagations')
+    if (dueBy !== undefined) query.where('nextAttemptAt', '<=', dueBy.getTime())
+    if (limit !== undefined) query.limit(limit)
+    const propagations = await query.orderBy(['nextAttemptAt', 'id']).select(
+      'id', 'domain', 'topics', 'beef', 'attempts', 'nextAttemptAt', 'lastError'
+    )
+    return propagations.map(p => {
+      const propagation: PendingPropagation = {
+        id: Number(p.id),
+        domain: p.domain,
+        topics: JSON.parse(p.topics),
+        beef: [...p.beef],
+        attempts: Number(p.attempts),
+        nextAttemptAt: new Date(Number(p.nextAttemptAt))
+      }
+      if (p.lastError !== null && p.lastError !== undefined) propagation.lastError = p.lastError
+      return propagation
+    })
+  }
+
+  async updatePropagation(id: number, attempts: number, nextAttemptAt: Date, lastError: string): Promise<void> {
+    await this.knex('propagations').where({ id }).update({
+      attempts,
+      nextAttemptAt: nextAttemptAt.getTime(),
+      lastError
+    })
+  }
+
+  async deletePropagation(id: number): Promise<void> {
+    await this.knex('propagations').where({ id }).del()
+  }
+
+  async insertFailedNotification(notification: Omit<FailedNotification, 'id'>): Promise<number> {
+    const [inserted] = await this.knex('failed_notifications').insert({
+      service: notification.service,
+      type: notification.type,
+      txid: notification.txid,
+      outputIndex: notification.outputIndex,
+      topic: notification.topic,
+      outputScript: notification.outputScript !== undefined ? Buffer.from(notification.outputScript) : null,
+      attempts: notification.attempts,
+      nextAttemptAt: notification.nextAttemptAt?.getTime() ?? null,
+      lastError: notification.lastError
+    }, ['id'])
+    return Number(typeof inserted === 'object' ? inserted.id : inserted)
+  }
+
+  async findFailedNotifications(limit?: number, output?: { txid: string, outputIndex: number, topic: string }): Promise<FailedNotification[]> {
+    const query = this.knex('failed_notifications')
+    if (output !== undefined) query.where({ txid: output.txid, outputIndex: output.outputIndex, topic: output.topic })
+    if (limit !== undefined) query.limit(limit)
+    const notifications = await query.orderBy('id').select(...FAILED_NOTIFICATION_COLUMNS)
+    return notifications.map(toFailedNotification)
+  }
+
+  async findFailedNotification(id: number): Promise<FailedNotification | null> {
+    const notification = await this.knex('failed_notifications').where({ id }).first(...FAILED_NOTIFICATION_COLUMNS)
+    return notification === undefined ? null : toFailedNotification(notification)
+  }
+
+  async updateFailedNotification(id: number, attempts: number, nextAttemptAt: Date | undefined, lastError: string): Promise<void> {
+    await this.knex('failed_notifications').where({ id }).update({
+      attempts,
+      nextAttemptAt: nextAttemptAt?.getTime() ?? null,
+      lastError
+    })
+  }
+
+  async deleteFailedNotification(id: number): Promise<void> {
+    await this.knex('failed_notifications').where({ id }).del()
+  }
+
+  async transaction<T>(scope: (storage: Storage) => Promise<T>): Promise<T> {
+    try {
+      return await this.inTransaction(async knex => await scope(knex === this.knex ? this : new KnexStorage(knex, this.logger)))
+    } catch (error) {
+      if (!this.knex.isTransaction && !(error instanceof DuplicateRecordError)) {
+        this.logger.warn('Rolled back a unit of work', { error })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Runs work within a database transaction, joining the transaction in progress if there is one.
+   */
+  private async inTransaction<T>(work: (knex: Knex) => Promise<T>): Promise<T> {
+    if (this.knex.isTransaction) {
+      return await work(this.knex)
+    }
+    return await this.knex.transaction(async trx => await work(trx))
+  }
+
+  /**
+   * Stores every transaction needed to anchor the subject of a BEEF to the chain, each only once.
+   * @param knex — The database connection or transaction to use
+   * @param beef — The BEEF containing the transactions
+   * @param replaceProofs — Whether stored proofs are replaced by the ones in the BEEF. Otherwise, only missing proofs are filled in.
+   */
+  private async storeTransactions(knex: Knex, beef: number[], replaceProofs: boolean): Promise<void> {
+    const pending = [Transaction.fromBEEF(beef)]
+    while (pending.length > 0) {
+      const tx = pending.pop() as Transaction
+      const txid = tx.id('hex')
+      const proof = tx.merklePath !== undefined ? Buffer.from(tx.merklePath.toBinary()) : null
+      await knex('transactions').insert({
+        txid,
+        rawTx: Buffer.from(tx.toBinary()),
+        proof
+      }).onConflict('txid').ignore()
+      if (proof !== null) {
+        const query = knex('transactions').where({ txid })
+        if (!replaceProofs) query.whereNull('proof')
+        await query.update({ proof })
+        // Once proven, the transaction no longer needs its ancestors
+        await this.collectTransactions(knex, await this.releaseSources(knex, txid))
+        continue
+      }
+      const stored = await knex('transactions').where({ txid }).first('proof')
+      if (stored?.proof !== undefined && stored.proof !== null) continue
+      for (const input of tx.inputs) {
+        await knex('transaction_inputs').insert({
+          txid,
+          sourceTxid: input.sourceTXID ?? input.sourceTransaction?.id('hex')
+        }).onConflict(['txid', 'sourceTxid']).ignore()
+        if (input.sourceTransaction !== undefined) pending.push(input.sourceTransaction)
+      }
+    }
+  }
+
+  /**
+   * Forgets which transactions an unproven transaction spends, returning their TXIDs.
+   */
+  private async releaseSources(knex: Knex, txid: string): Promise<string[]> {
+    const sourceTxids: string[] = await knex('transaction_inputs').where({ txid }).pluck('sourceTxid')
+    await knex('transaction_inputs').where({ txid }).del()
+    return sourceTxids
+  }
+
+  /**
+   * Deletes stored transactions which no output, edge or unproven transaction refers to any longer,
+   * along with the ancestors that were kept only for them.
+   * @param knex — The database connection or transaction to use
+   * @param txids — TXIDs of the transactions which may no longer be referred to
+   */
+  private async collectTransactions(knex: Knex, txids: string[]): Promise<void> {
+    const pending = [...txids]
+    while (pending.length > 0) {
+      const txid = pending.pop() as string
+      const referenced = await knex('outputs').where({ txid }).first('id') ??
+        await knex('output_edges').where({ consumedTxid: txid }).orWhere({ consumingTxid: txid }).first('id') ??
+        await knex('transaction_inputs').where({ sourceTxid: txid }).first('id')
+      if (referenced !== undefined) continue
+      pending.push(...await this.releaseSources(knex, txid))
+      await knex('transactions').where({ txid }).del()
+    }
+  }
+
+  /**
+   * Rebuilds a stored transaction along with the ancestors needed to anchor it to the chain.
+   * @param txid — TXID of the transaction to load
+   * @param transactions — Transactions already loaded, which are reused rather than loaded again
+   */
+  private async loadTransaction(txid: string, transactions: Map<string, Transaction>): Promise<Transaction> {
+    const loaded = transactions.get(txid)
+    if (loaded !== undefined) {
+      return loaded
+    }
+    const row = await this.knex('transactions').where({ txid }).first('rawTx', 'proof')
+    if (row === undefined || row === null) {
+      this.logger.error('A stored output refers to a transaction which is missing from storage', { txid })
+      throw new Error(`Transaction ${txid} was not found in storage.`)
+    }
+    const tx = Transaction.fromBinary([...row.rawTx])
+    if (row.proof !== undefined && row.proof !== null) {
+      tx.merklePath = MerklePath.fromBinary([...row.proof])
+    } else {
+      for (const input of tx.inputs) {
+        input.sourceTransaction = await this.loadTransaction(input.sourceTXID as string, transactions)
+      }
+    }
+    transactions.set(txid, tx)
+    return tx
+  }
+
+  /**
+   * Completes an output row with its BEEF and the outputs on either side of its edges.
+   */
+  private async hydrateOutput(output: any, transactions: Map<string, Transaction>): Promise<Output> {
+    const outputsConsumed = await this.knex('output_edges').where({
+      topic: output.topic,
+      consumingTxid: output.txid,
+      consumingOutputIndex: output.outputIndex,
+      side: 'outputsConsumed'
+    }).orderBy('id').select('consumedTxid', 'consumedOutputIndex')
+    const consumedBy = await this.knex('output_edges').where({
+      topic: output.topic,
+      consumedTxid: output.txid,
+      consumedOutputIndex: output.outputIndex,
+      side: 'consumedBy'
+    }).orderBy('id').select('consumingTxid', 'consumingOutputIndex')
+    const tx = await this.loadTransaction(output.txid, transactions)
+    const { admittedAt, ...columns } = output
+    return {
+      ...columns,
+      ...(admittedAt !== null && admittedAt !== undefined ? { admittedAt: new Date(Number(admittedAt)) } : {}),
+      outputScript: [...output.outputScript],
+      beef: tx.toBEEF(),
+      spent: Boolean(output.spent),
+      outputsConsumed: outputsConsumed.map(e => ({ txid: e.consumedTxid, outputIndex: e.consumedOutputIndex })),
+      consumedBy: consumedBy.map(e => ({ txid: e.consumingTxid, outputIndex: e.consumingOutputIndex }))
+    }
+  }
+
+  /**
+   * Records that an output within a topic was consumed by the transaction creating another output,
+   * in the list of the output on the given side of the edge.
+   */
+  private async insertEdge(
+    knex: Knex,
+    topic: string,
+    consumed: { txid: string, outputIndex: number },
+    consuming: { txid: string, outputIndex: number },
+    side: 'consumedBy' | 'outputsConsumed'
+  ): Promise<void> {
+    await knex('output_edges').insert({
+      topic,
+      consumedTxid: consumed.txid,
+      consumedOutputIndex: consumed.outputIndex,
+      consumingTxid: consuming.txid,
+      consumingOutputIndex: consuming.outputIndex,
+      side
+    }).onConflict(['topic', 'consumedTxid', 'consumedOutputIndex', 'consumingTxid', 'consumingOutputIndex', 'side']).ignore()
+  }
+}
+
+const FAILED_NOTIFICATION_COLUMNS = [
+  'id', 'service', 'type', 'txid', 'outputIndex', 'topic', 'outputScript', 'attempts', 'nextAttemptAt', 'lastError'
+]
+
+/**
+ * Converts a row of the failed_notifications table into a failed notification.
+ */
+const toFailedNotification = (n: any): FailedNotification => {
+  const notification: FailedNotification = {
+    id: Number(n.id),
+    service: n.service,
+    type: n.type,
+    txid: n.txid,
+    outputIndex: Number(n.outputIndex),
+    topic: n.topic,
+    attempts: Number(n.attempts),
+    lastError: n.lastError
+  }
+  if (n.outputScript !== null && n.outputScript !== undefined) notification.outputScript = [...n.outputScript]
+  if (n.nextAttemptAt !== null && n.nextAttemptAt !== undefined) notification.nextAttemptAt = new Date(Number(n.nextAttemptAt))
+  return notification
+}
+
+/**
+ * Whether a database error reports the violation of a unique key, for each of the database clients supported by Knex.
+ */
+const isUniqueViolation = (error: any): boolean => {
+  const code = error?.code
+  return code === 'SQLITE_CONSTRAINT_UNIQUE' || // better-sqlite3
+    code === 'SQLITE_CONSTRAINT_PRIMARYKEY' ||
+    (code === 'SQLITE_CONSTRAINT' && String(error.message).includes('UNIQUE')) || // sqlite3
+    code === 'ER_DUP_ENTRY' || // MySQL and MariaDB
+    code === '23505' || // PostgreSQL
+    error?.number === 2601 || error?.number === 2627 // SQL Server
+}
@@ -1,5 +1,13 @@
 import { Knex } from 'knex'
 import { up as oneUp, down as oneDown } from './migrations/2024-05-18-001-initial.js'
+import { up as twoUp, down as twoDown } from './migrations/2024-06-26-002-normalized-transactions.js'
+import { up as threeUp, down as threeDown } from './migrations/2024-06-27-003-indexes.js'
+import { up as fourUp, down as fourDown } from './migrations/2024-07-02-004-propagations.js'
+import { up as fiveUp, down as fiveDown } from './migrations/2024-07-10-005-admitted-at.js'
+import { up as sixUp, down as sixDown } from './migrations/2024-07-16-006-failed-notifications.js'
+import { up as sevenUp, down as sevenDown } from './migrations/2024-07-18-007-awaiting-proof.js'
+import { up as eightUp, down as eightDown } from './migrations/2024-07-20-008-edge-sides.js'
+import { up as nineUp, down as nineDown } from './migrations/2024-07-22-009-transaction-inputs.js'
 
 /**
  * An array of all migrations, in order.
@@ -8,7 +16,15 @@ const allMigrations: {
     up: (knex: Knex) => Promise<void>
     down: (knex: Knex) => Promise<void>
 }[] = [
-        { up: oneUp, down: oneDown }
+        { up: oneUp, down: oneDown },
+        { up: twoUp, down: twoDown },
+        { up: threeUp, down: threeDown },
+        { up: fourUp, down: fourDown },
+        { up: fiveUp, down: fiveDown },
+        { up: sixUp, down: sixDown },
+        { up: sevenUp, down: sevenDown },
+        { up: eightUp, down: eightDown },
+        { up: nineUp, down: nineDown }
     ]
 
 export default allMigrations
\ No newline at end of file
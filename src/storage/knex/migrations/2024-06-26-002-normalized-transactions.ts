@@ -0,0 +1,134 @@
+import type { Knex } from 'knex'
+import { Transaction, MerklePath } from '@bsv/sdk'
+
+// Rows are moved between the old and new layouts in batches, to bound memory use on large databases
+const BATCH_SIZE = 500
+
+export async function up(knex: Knex): Promise<void> {
+  // Every transaction is stored once, along with its merkle proof when it has one
+  await knex.schema.createTable('transactions', table => {
+    table.string('txid', 64).primary()
+    table.binary('rawTx')
+    table.binary('proof').nullable()
+  })
+  // Each edge records that an output within a topic was consumed by the transaction that created another output
+  await knex.schema.createTable('output_edges', table => {
+    table.increments()
+    table.string('topic')
+    table.string('consumedTxid', 64)
+    table.integer('consumedOutputIndex', 10)
+    table.string('consumingTxid', 64)
+    table.integer('consumingOutputIndex', 10)
+    table.unique(['topic', 'consumedTxid', 'consumedOutputIndex', 'consumingTxid', 'consumingOutputIndex'])
+  })
+
+  let lastId = 0
+  for (; ;) {
+    const outputs = await knex('outputs').where('id', '>', lastId).orderBy('id').limit(BATCH_SIZE)
+      .select('id', 'txid', 'outputIndex', 'topic', 'beef', 'outputsConsumed', 'consumedBy')
+    if (outputs.length === 0) break
+    for (const output of outputs) {
+      // Store every transaction within the BEEF
+      const pending = [Transaction.fromBEEF([...output.beef])]
+      while (pending.length > 0) {
+        const tx = pending.pop() as Transaction
+        const txid = tx.id('hex')
+        const proof = tx.merklePath !== undefined ? Buffer.from(tx.merklePath.toBinary()) : null
+        await knex('transactions').insert({
+          txid,
+          rawTx: Buffer.from(tx.toBinary()),
+          proof
+        }).onConflict('txid').ignore()
+        if (proof !== null) {
+          // Another copy of the transaction may have been stored before it was proven
+          await knex('transactions').where({ txid }).whereNull('proof').update({ proof })
+        } else {
+          for (const input of tx.inputs) {
+            if (input.sourceTransaction !== undefined) pending.push(input.sourceTransaction)
+          }
+        }
+      }
+
+      // Record the edges in both directions
+      const edges = [
+        ...(JSON.parse(output.outputsConsumed) as Array<{ txid: string, outputIndex: number }>).map(consumed => ({
+          topic: output.topic,
+          consumedTxid: consumed.txid,
+          consumedOutputIndex: consumed.outputIndex,
+          consumingTxid: output.txid,
+          consumingOutputIndex: output.outputIndex
+        })),
+        ...(JSON.parse(output.consumedBy) as Array<{ txid: string, outputIndex: number }>).map(consuming => ({
+          topic: output.topic,
+          consumedTxid: output.txid,
+          consumedOutputIndex: output.outputIndex,
+          consumingTxid: consuming.txid,
+          consumingOutputIndex: consuming.outputIndex
+        }))
+      ]
+      for (const edge of edges) {
+        await knex('output_edges').insert(edge).onConflict([
+          'topic', 'consumedTxid', 'consumedOutputIndex', 'consumingTxid', 'consumingOutputIndex'
+        ]).ignore()
+      }
+    }
+    lastId = outputs[outputs.length - 1].id
+  }
+
+  await knex.schema.alterTable('outputs', table => {
+    table.dropColumn('beef')
+    table.dropColumn('outputsConsumed')
+    table.dropColumn('consumedBy')
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('outputs', table => {
+    table.binary('beef')
+    table.text('outputsConsumed', 'longtext').defaultTo('[]')
+    table.text('consumedBy', 'longtext').defaultTo('[]')
+  })
+
+  // Rebuilds a transaction along with the ancestors needed to anchor it to the chain
+  const loadTransaction = async (txid: string): Promise<Transaction> => {
+    const row = await knex('transactions').where({ txid }).first('rawTx', 'proof')
+    const tx = Transaction.fromBinary([...row.rawTx])
+    if (row.proof !== null && row.proof !== undefined) {
+      tx.merklePath = MerklePath.fromBinary([...row.proof])
+    } else {
+      for (const input of tx.inputs) {
+        input.sourceTransaction = await loadTransaction(input.sourceTXID as string)
+      }
+    }
+    return tx
+  }
+
+  let lastId = 0
+  for (; ;) {
+    const outputs = await knex('outputs').where('id', '>', lastId).orderBy('id').limit(BATCH_SIZE)
+      .select('id', 'txid', 'outputIndex', 'topic')
+    if (outputs.length === 0) break
+    for (const output of outputs) {
+      const outputsConsumed = await knex('output_edges').where({
+        topic: output.topic,
+        consumingTxid: output.txid,
+        consumingOutputIndex: output.outputIndex
+      }).orderBy('id').select('consumedTxid', 'consumedOutputIndex')
+      const consumedBy = await knex('output_edges').where({
+        topic: output.topic,
+        consumedTxid: output.txid,
+        consumedOutputIndex: output.outputIndex
+      }).orderBy('id').select('consumingTxid', 'consumingOutputIndex')
+      const tx = await loadTransaction(output.txid)
+      await knex('outputs').where({ id: output.id }).update({
+        beef: Buffer.from(tx.toBEEF()),
+        outputsConsumed: JSON.stringify(outputsConsumed.map(e => ({ txid: e.consumedTxid, outputIndex: e.consumedOutputIndex }))),
+        consumedBy: JSON.stringify(consumedBy.map(e => ({ txid: e.consumingTxid, outputIndex: e.consumingOutputIndex })))
+      })
+    }
+    lastId = outputs[outputs.length - 1].id
+  }
+
+  await knex.schema.dropTable('output_edges')
+  await knex.schema.dropTable('transactions')
+}
@@ -0,0 +1,54 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  // Remove duplicates that could previously be inserted concurrently, keeping the earliest copy of each
+  const duplicateOutputs = await knex('outputs')
+    .select('txid', 'outputIndex', 'topic')
+    .min({ keepId: 'id' })
+    .groupBy('txid', 'outputIndex', 'topic')
+    .havingRaw('count(*) > 1') as Array<{ txid: string, outputIndex: number, topic: string, keepId: number }>
+  for (const duplicate of duplicateOutputs) {
+    await knex('outputs').where({
+      txid: duplicate.txid,
+      outputIndex: duplicate.outputIndex,
+      topic: duplicate.topic
+    }).whereNot('id', duplicate.keepId).del()
+  }
+  const duplicateAppliedTransactions = await knex('applied_transactions')
+    .select('txid', 'topic')
+    .min({ keepId: 'id' })
+    .groupBy('txid', 'topic')
+    .havingRaw('count(*) > 1') as Array<{ txid: string, topic: string, keepId: number }>
+  for (const duplicate of duplicateAppliedTransactions) {
+    await knex('applied_transactions').where({
+      txid: duplicate.txid,
+      topic: duplicate.topic
+    }).whereNot('id', duplicate.keepId).del()
+  }
+
+  await knex.schema.alterTable('outputs', table => {
+    // Also serves lookups by TXID alone, and by TXID and output index
+    table.unique(['txid', 'outputIndex', 'topic'])
+    table.index(['topic', 'spent'])
+  })
+  await knex.schema.alterTable('applied_transactions', table => {
+    table.unique(['txid', 'topic'])
+  })
+  await knex.schema.alterTable('output_edges', table => {
+    // The existing unique key already serves lookups starting from the consumed output
+    table.index(['topic', 'consumingTxid', 'consumingOutputIndex'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('output_edges', table => {
+    table.dropIndex(['topic', 'consumingTxid', 'consumingOutputIndex'])
+  })
+  await knex.schema.alterTable('applied_transactions', table => {
+    table.dropUnique(['txid', 'topic'])
+  })
+  await knex.schema.alterTable('outputs', table => {
+    table.dropIndex(['topic', 'spent'])
+    table.dropUnique(['txid', 'outputIndex', 'topic'])
+  })
+}
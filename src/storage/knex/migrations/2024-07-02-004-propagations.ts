@@ -0,0 +1,20 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  // Transactions waiting to be delivered to peers, kept until delivered or given up on
+  await knex.schema.createTable('propagations', table => {
+    table.increments()
+    table.string('domain')
+    table.text('topics', 'longtext')
+    table.binary('beef')
+    table.integer('attempts').defaultTo(0)
+    // Milliseconds since the epoch
+    table.bigInteger('nextAttemptAt')
+    table.text('lastError').nullable()
+    table.index(['nextAttemptAt'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('propagations')
+}
@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  // When each output was admitted, in milliseconds since the epoch. Outputs admitted before this migration have none.
+  await knex.schema.alterTable('outputs', table => {
+    table.bigInteger('admittedAt').nullable()
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('outputs', table => {
+    table.dropColumn('admittedAt')
+  })
+}
@@ -0,0 +1,24 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  // Notifications that lookup services failed to process, kept until processed or discarded
+  await knex.schema.createTable('failed_notifications', table => {
+    table.increments()
+    table.string('service')
+    table.string('type')
+    table.string('txid', 64)
+    table.integer('outputIndex', 10)
+    table.string('topic')
+    table.binary('outputScript').nullable()
+    table.integer('attempts').defaultTo(0)
+    // Milliseconds since the epoch, or null once automatic retries have been exhausted
+    table.bigInteger('nextAttemptAt').nullable()
+    table.text('lastError')
+    // Serves the checks for notifications about an output which must wait for earlier ones to be processed
+    table.index(['txid', 'outputIndex', 'topic'])
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.dropTable('failed_notifications')
+}
@@ -0,0 +1,14 @@
+import type { Knex } from 'knex'
+
+export async function up(knex: Knex): Promise<void> {
+  // Transactions whose proof is for an orphaned block, which keep the old proof until a new one is applied
+  await knex.schema.alterTable('transactions', table => {
+    table.boolean('awaitingProof').defaultTo(false)
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('transactions', table => {
+    table.dropColumn('awaitingProof')
+  })
+}
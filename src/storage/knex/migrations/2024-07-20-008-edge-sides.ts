@@ -0,0 +1,56 @@
+import type { Knex } from 'knex'
+
+// Edges are copied between the sides in batches, to bound memory use on large databases
+const BATCH_SIZE = 500
+
+const EDGE_COLUMNS = ['topic', 'consumedTxid', 'consumedOutputIndex', 'consumingTxid', 'consumingOutputIndex']
+
+export async function up(knex: Knex): Promise<void> {
+  // Each edge now belongs to the list of one output: the consumedBy of the consumed output,
+  // or the outputsConsumed of the consuming output, so that updating one list leaves the other alone
+  await knex.schema.alterTable('output_edges', table => {
+    table.dropUnique(EDGE_COLUMNS)
+    table.string('side', 16).notNullable().defaultTo('outputsConsumed')
+  })
+
+  // Existing edges were shared by both lists, so each one is copied to the other side
+  let lastId = 0
+  for (; ;) {
+    const edges = await knex('output_edges').where('side', 'outputsConsumed').where('id', '>', lastId)
+      .orderBy('id').limit(BATCH_SIZE).select('id', ...EDGE_COLUMNS)
+    if (edges.length === 0) break
+    for (const { id, ...edge } of edges) {
+      await knex('output_edges').insert({ ...edge, side: 'consumedBy' })
+    }
+    lastId = edges[edges.length - 1].id
+  }
+
+  await knex.schema.alterTable('output_edges', table => {
+    // Also serves lookups starting from the consumed output
+    table.unique([...EDGE_COLUMNS, 'side'], { indexName: 'output_edges_edge_side_unique' })
+  })
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('output_edges', table => {
+    table.dropUnique([...EDGE_COLUMNS, 'side'], 'output_edges_edge_side_unique')
+  })
+
+  // Edges recorded on both sides become a single shared edge again
+  let lastId = 0
+  for (; ;) {
+    const edges = await knex('output_edges').where('side', 'consumedBy').where('id', '>', lastId)
+      .orderBy('id').limit(BATCH_SIZE).select('id', ...EDGE_COLUMNS)
+    if (edges.length === 0) break
+    for (const { id, ...edge } of edges) {
+      const shared = await knex('output_edges').where({ ...edge, side: 'outputsConsumed' }).first('id')
+      if (shared !== undefined) await knex('output_edges').where({ id }).del()
+    }
+    lastId = edges[edges.length - 1].id
+  }
+
+  await knex.schema.alterTable('output_edges', table => {
+    table.dropColumn('side')
+    table.unique(EDGE_COLUMNS)
+  })
+}
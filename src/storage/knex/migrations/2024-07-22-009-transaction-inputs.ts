@@ -0,0 +1,42 @@
+import type { Knex } from 'knex'
+import { Transaction } from '@bsv/sdk'
+
+// Transactions are read in batches, to bound memory use on large databases
+const BATCH_SIZE = 500
+
+export async function up(knex: Knex): Promise<void> {
+  // Each row records that an unproven transaction spends another stored transaction, which its BEEF needs as an ancestor
+  await knex.schema.createTable('transaction_inputs', table => {
+    table.increments()
+    table.string('txid', 64)
+    table.string('sourceTxid', 64).index()
+    table.unique(['txid', 'sourceTxid'])
+  })
+  await knex.schema.alterTable('output_edges', table => {
+    // Serve checks for edges referring to a transaction in any topic, before it is deleted
+    table.index(['consumedTxid'])
+    table.index(['consumingTxid'])
+  })
+
+  let lastTxid = ''
+  for (; ;) {
+    const transactions = await knex('transactions').whereNull('proof').where('txid', '>', lastTxid)
+      .orderBy('txid').limit(BATCH_SIZE).select('txid', 'rawTx')
+    if (transactions.length === 0) break
+    for (const { txid, rawTx } of transactions) {
+      const tx = Transaction.fromBinary([...rawTx])
+      for (const input of tx.inputs) {
+        await knex('transaction_inputs').insert({ txid, sourceTxid: input.sourceTXID }).onConflict(['txid', 'sourceTxid']).ignore()
+      }
+    }
+    lastTxid = transactions[transactions.length - 1].txid
+  }
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('output_edges', table => {
+    table.dropIndex(['consumingTxid'])
+    table.dropIndex(['consumedTxid'])
+  })
+  await knex.schema.dropTable('transaction_inputs')
+}
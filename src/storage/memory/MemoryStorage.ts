@@ -0,0 +1,359 @@
+import { Transaction, MerklePath } from '@bsv/sdk'
+import type { Storage, AppliedTransaction, PendingPropagation, FailedNotification } from '../Storage.js'
+import type { Output } from '../../Output.js'
+import { DuplicateRecordError } from '../DuplicateRecordError.js'
+
+/**
+ * A Storage Engine which keeps all of its data in memory.
+ *
+ * Behaves like the KnexStorage engine without needing a database, which makes it useful for tests and local development.
+ * Nothing is persisted, so all data is lost when the instance is discarded.
+ */
+export class MemoryStorage implements Storage {
+  private outputs: Output[] = []
+  private appliedTransactions = new Set<string>()
+  private transactionsAwaitingProof = new Set<string>()
+  private propagations: PendingPropagation[] = []
+  private nextPropagationId = 1
+  private failedNotifications: FailedNotification[] = []
+  private nextFailedNotificationId = 1
+
+  /** The storage whose data a unit of work operates on, only set for the storage handed to a unit of work */
+  private root?: MemoryStorage
+
+  /** Settles once the most recently started unit of work has finished */
+  private pendingTransaction: Promise<void> = Promise.resolve()
+
+  async findOutput(txid: string, outputIndex: number, topic?: string, spent?: boolean): Promise<Output | null> {
+    const data = await this.data()
+    const output = data.outputs.find(o =>
+      o.txid === txid &&
+      o.outputIndex === outputIndex &&
+      (topic === undefined || o.topic === topic) &&
+      (spent === undefined || o.spent === spent)
+    )
+    if (output === undefined) {
+      return null
+    }
+    return copyOutput(output)
+  }
+
+  async findOutputsForTransaction(txid: string): Promise<Output[]> {
+    const data = await this.data()
+    return data.outputs.filter(o => o.txid === txid).map(copyOutput)
+  }
+
+  async findOutputs(topic?: string, spent?: boolean, after?: { txid: string, outputIndex: number, topic: string }, limit?: number): Promise<Output[]> {
+    const data = await this.data()
+    const outputs = data.outputs
+      .filter(o =>
+        (topic === undefined || o.topic === topic) &&
+        (spent === undefined || o.spent === spent) &&
+        (after === undefined || compareOutputs(o, after) > 0)
+      )
+      .sort(compareOutputs)
+    return outputs.slice(0, limit).map(copyOutput)
+  }
+
+  async findUnprovenTransactions(after?: string, limit?: number): Promise<string[]> {
+    const data = await this.data()
+    const txids = new Set<string>()
+    for (const output of data.outputs) {
+      if ((after === undefined || output.txid > after) && !txids.has(output.txid) &&
+        (data.transactionsAwaitingProof.has(output.txid) || Transaction.fromBEEF(output.beef).merklePath === undefined)) {
+        txids.add(output.txid)
+      }
+    }
+    return Array.from(txids).sort().slice(0, limit)
+  }
+
+  async markTransactionUnproven(txid: string): Promise<void> {
+    const data = await this.data()
+    data.transactionsAwaitingProof.add(txid)
+  }
+
+  async markTransactionProven(txid: string): Promise<void> {
+    const data = await this.data()
+    data.transactionsAwaitingProof.delete(txid)
+  }
+
+  async deleteOutput(txid: string, outputIndex: number, topic: string): Promise<void> {
+    const data = await this.data()
+    data.outputs = data.outputs.filter(o => !(o.txid === txid && o.outputIndex === outputIndex && o.topic === topic))
+    // Outputs carry their own BEEF, so only the state kept per transaction is left to forget
+    const referenced = data.outputs.some(o => o.txid === txid ||
+      o.outputsConsumed.some(e => e.txid === txid) || o.consumedBy.some(e => e.txid === txid))
+    if (!referenced) data.transactionsAwaitingProof.delete(txid)
+  }
+
+  async insertOutput(output: Output): Promise<void> {
+    const data = await this.data()
+    if (data.outputs.some(o => o.txid === output.txid && o.outputIndex === output.outputIndex && o.topic === output.topic)) {
+      throw new DuplicateRecordError(`Output ${output.txid}.${output.outputIndex} is already stored in topic ${output.topic}`)
+    }
+    data.outputs.push(copyOutput(output))
+  }
+
+  async markUTXOAsSpent(txid: string, outputIndex: number, topic: string): Promise<void> {
+    for (const output of await this.matching(txid, outputIndex, topic)) {
+      output.spent = true
+    }
+  }
+
+  async updateConsumedBy(txid: string, outputIndex: number, topic: string, consumedBy: Array<{ txid: string, outputIndex: number }>): Promise<void> {
+    for (const output of await this.matching(txid, outputIndex, topic)) {
+      output.consumedBy = consumedBy.map(c => ({ txid: c.txid, outputIndex: c.outputIndex }))
+    }
+  }
+
+  async updateOutputsConsumed(txid: string, outputIndex: number, topic: string, outputsConsumed: Array<{ txid: string, outputIndex: number }>): Promise<void> {
+    for (const output of await this.matching(txid, outputIndex, topic)) {
+      output.outputsConsumed = outputsConsumed.map(o => ({ txid: o.txid, outputIndex: o.outputIndex }))
+    }
+  }
+
+  async updateOutputBeef(txid: string, outputIndex: number, topic: string, beef: number[]): Promise<void> {
+    const updated = await this.matching(txid, outputIndex, topic)
+    if (updated.length === 0) return
+    for (const output of updated) {
+      output.beef = [...beef]
+    }
+    // As with KnexStorage, the proofs apply to every output whose BEEF contains the proven transactions
+    const proofs = findProofs(beef)
+    const data = await this.data()
+    for (const output of data.outputs) {
+      if (updated.includes(output)) continue
+      const tx = Transaction.fromBEEF(output.beef)
+      if (applyProofs(tx, proofs)) {
+        output.beef = tx.toBEEF()
+      }
+    }
+  }
+
+  async insertAppliedTransaction(tx: AppliedTransaction): Promise<void> {
+    const data = await this.data()
+    if (data.appliedTransactions.has(appliedTransactionKey(tx))) {
+      throw new DuplicateRecordError(`Transaction ${tx.txid} is already applied to topic ${tx.topic}`)
+    }
+    data.appliedTransactions.add(appliedTransactionKey(tx))
+  }
+
+  async doesAppliedTransactionExist(tx: AppliedTransaction): Promise<boolean> {
+    const data = await this.data()
+    return data.appliedTransactions.has(appliedTransactionKey(tx))
+  }
+
+  async insertPropagation(propagation: Omit<PendingPropagation, 'id'>): Promise<number> {
+    const data = await this.data()
+    const id = data.nextPropagationId++
+    data.propagations.push(copyPropagation({ ...propagation, id }))
+    return id
+  }
+
+  async findPendingPropagations(dueBy?: Date, limit?: number): Promise<PendingPropagation[]> {
+    const data = await this.data()
+    return data.propagations
+      .filter(p => dueBy === undefined || p.nextAttemptAt.getTime() <= dueBy.getTime())
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime() || a.id - b.id)
+      .slice(0, limit)
+      .map(copyPropagation)
+  }
+
+  async updatePropagation(id: number, attempts: number, nextAttemptAt: Date, lastError: string): Promise<void> {
+    const data = await this.data()
+    for (const propagation of data.propagations) {
+      if (propagation.id === id) {
+        propagation.attempts = attempts
+        propagation.nextAttemptAt = new Date(nextAttemptAt)
+        propagation.lastError = lastError
+      }
+    }
+  }
+
+  async deletePropagation(id: number): Promise<void> {
+    const data = await this.data()
+    data.propagations = data.propagations.filter(p => p.id !== id)
+  }
+
+  async insertFailedNotification(notification: Omit<FailedNotification, 'id'>): Promise<number> {
+    const data = await this.data()
+    const id = data.nextFailedNotificationId++
+    data.failedNotifications.push(copyFailedNotification({ ...notification, id }))
+    return id
+  }
+
+  async findFailedNotifications(limit?: number, output?: { txid: string, outputIndex: number, topic: string }): Promise<FailedNotification[]> {
+    const data = await this.data()
+    return data.failedNotifications
+      .filter(n => output === undefined || (n.txid === output.txid && n.outputIndex === output.outputIndex && n.topic === output.topic))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit)
+      .map(copyFailedNotification)
+  }
+
+  async findFailedNotification(id: number): Promise<FailedNotification | null> {
+    const data = await this.data()
+    const notification = data.failedNotifications.find(n => n.id === id)
+    return notification === undefined ? null : copyFailedNotification(notification)
+  }
+
+  async updateFailedNotification(id: number, attempts: number, nextAttemptAt: Date | undefined, lastError: string): Promise<void> {
+    const data = await this.data()
+    for (const notification of data.failedNotifications) {
+      if (notification.id === id) {
+        notification.attempts = attempts
+        if (nextAttemptAt !== undefined) {
+          notification.nextAttemptAt = new Date(nextAttemptAt)
+        } else {
+          delete notification.nextAttemptAt
+        }
+        notification.lastError = lastError
+      }
+    }
+  }
+
+  async deleteFailedNotification(id: number): Promise<void> {
+    const data = await this.data()
+    data.failedNotifications = data.failedNotifications.filter(n => n.id !== id)
+  }
+
+  async transaction<T>(scope: (storage: Storage) => Promise<T>): Promise<T> {
+    // Join the unit of work in progress rather than starting a nested one
+    if (this.root !== undefined) {
+      return await scope(this)
+    }
+
+    // Units of work run one at a time, so that rolling one back can never undo changes made by another
+    const previousTransaction = this.pendingTransaction
+    let finish: () => void = () => { }
+    this.pendingTransaction = new Promise(resolve => { finish = resolve })
+    await previousTransaction
+
+    const outputsSnapshot = this.outputs.map(copyOutput)
+    const appliedTransactionsSnapshot = new Set(this.appliedTransactions)
+    const transactionsAwaitingProofSnapshot = new Set(this.transactionsAwaitingProof)
+    const propagationsSnapshot = this.propagations.map(copyPropagation)
+    const nextPropagationIdSnapshot = this.nextPropagationId
+    const failedNotificationsSnapshot = this.failedNotifications.map(copyFailedNotification)
+    const nextFailedNotificationIdSnapshot = this.nextFailedNotificationId
+    const storage = new MemoryStorage()
+    storage.root = this
+    try {
+      return await scope(storage)
+    } catch (error) {
+      this.outputs = outputsSnapshot
+      this.appliedTransactions = appliedTransactionsSnapshot
+      this.transactionsAwaitingProof = transactionsAwaitingProofSnapshot
+      this.propagations = propagationsSnapshot
+      this.nextPropagationId = nextPropagationIdSnapshot
+      this.failedNotifications = failedNotificationsSnapshot
+      this.nextFailedNotificationId = nextFailedNotificationIdSnapshot
+      throw error
+    } finally {
+      finish()
+    }
+  }
+
+  /**
+   * Resolves the storage holding the data to operate on.
+   * Outside of a unit of work, this waits for any unit of work in progress to finish first.
+   */
+  private async data(): Promise<MemoryStorage> {
+    if (this.root !== undefined) {
+      return this.root
+    }
+    await this.pendingTransaction
+    return this
+  }
+
+  /**
+   * Finds the stored records (not copies) of the outputs matching a TXID, output index and topic.
+   */
+  private async matching(txid: string, outputIndex: number, topic: string): Promise<Output[]> {
+    const data = await this.data()
+    return data.outputs.filter(o => o.txid === txid && o.outputIndex === outputIndex && o.topic === topic)
+  }
+}
+
+/**
+ * Copies an output, so that callers can never modify the stored data by reference.
+ */
+const copyOutput = (output: Output): Output => ({
+  ...output,
+  outputScript: [...output.outputScript],
+  beef: [...output.beef],
+  outputsConsumed: output.outputsConsumed.map(o => ({ txid: o.txid, outputIndex: o.outputIndex })),
+  consumedBy: output.consumedBy.map(c => ({ txid: c.txid, outputIndex: c.outputIndex })),
+  ...(output.admittedAt !== undefined ? { admittedAt: new Date(output.admittedAt) } : {})
+})
+
+/**
+ * Copies a pending propagation, so that callers can never modify the stored data by reference.
+ */
+const copyPropagation = (propagation: PendingPropagation): PendingPropagation => ({
+  ...propagation,
+  topics: [...propagation.topics],
+  beef: [...propagation.beef],
+  nextAttemptAt: new Date(propagation.nextAttemptAt)
+})
+
+/**
+ * Copies a failed notification, so that callers can never modify the stored data by reference.
+ */
+const copyFailedNotification = (notification: FailedNotification): FailedNotification => ({
+  ...notification,
+  ...(notification.outputScript !== undefined ? { outputScript: [...notification.outputScript] } : {}),
+  ...(notification.nextAttemptAt !== undefined ? { nextAttemptAt: new Date(notification.nextAttemptAt) } : {})
+})
+
+/**
+ * Orders outputs by TXID, then output index, then topic.
+ */
+const compareOutputs = (a: { txid: string, outputIndex: number, topic: string }, b: { txid: string, outputIndex: number, topic: string }): number => {
+  if (a.txid !== b.txid) return a.txid < b.txid ? -1 : 1
+  if (a.outputIndex !== b.outputIndex) return a.outputIndex - b.outputIndex
+  if (a.topic !== b.topic) return a.topic < b.topic ? -1 : 1
+  return 0
+}
+
+/**
+ * Collects the merkle proofs of the proven transactions within a BEEF, by TXID.
+ */
+const findProofs = (beef: number[]): Map<string, MerklePath> => {
+  const proofs = new Map<string, MerklePath>()
+  const pending = [Transaction.fromBEEF(beef)]
+  while (pending.length > 0) {
+    const tx = pending.pop() as Transaction
+    if (tx.merklePath !== undefined) {
+      proofs.set(tx.id('hex'), tx.merklePath)
+    } else {
+      for (const input of tx.inputs) {
+        if (input.sourceTransaction !== undefined) pending.push(input.sourceTransaction)
+      }
+    }
+  }
+  return proofs
+}
+
+/**
+ * Applies merkle proofs to a transaction and its ancestors, returning whether any of them changed.
+ */
+const applyProofs = (tx: Transaction, proofs: Map<string, MerklePath>): boolean => {
+  let changed = false
+  const pending = [tx]
+  while (pending.length > 0) {
+    const current = pending.pop() as Transaction
+    const proof = proofs.get(current.id('hex'))
+    if (proof !== undefined && current.merklePath?.toHex() !== proof.toHex()) {
+      current.merklePath = proof
+      changed = true
+    } else if (current.merklePath === undefined) {
+      for (const input of current.inputs) {
+        if (input.sourceTransaction !== undefined) pending.push(input.sourceTransaction)
+      }
+    }
+  }
+  return changed
+}
+
+const appliedTransactionKey = (tx: AppliedTransaction): string => `${tx.txid}.${tx.topic}`
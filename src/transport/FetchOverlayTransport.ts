@@ -0,0 +1,32 @@
+import { OverlayTransport } from '../OverlayTransport.js'
+import { TaggedBEEF } from '../TaggedBEEF.js'
+
+/**
+ * Delivers transactions to other overlay nodes by posting them to their /submit endpoint over HTTP, using fetch.
+ */
+export class FetchOverlayTransport implements OverlayTransport {
+  /**
+   * Creates a new fetch-based transport
+   * @param {Record<string, string>} [headers] - additional headers sent with every request, such as for authentication
+   * @param {typeof fetch} [fetchFunction] - the fetch implementation to use, such as one routing requests through a proxy. Defaults to the global fetch.
+   */
+  constructor(
+    public headers: Record<string, string> = {},
+    public fetchFunction: typeof fetch = async (input, init) => await fetch(input, init)
+  ) { }
+
+  async submit(domain: string, taggedBEEF: TaggedBEEF): Promise<void> {
+    const response = await this.fetchFunction(`${domain}/submit`, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/octet-stream',
+        'X-Topics': JSON.stringify(taggedBEEF.topics)
+      },
+      body: new Uint8Array(taggedBEEF.beef)
+    })
+    if (!response.ok) {
+      throw new Error(`The peer responded with status ${response.status}`)
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import type { Engine } from '../Engine.js'
+import { OverlayTransport } from '../OverlayTransport.js'
+import { TaggedBEEF } from '../TaggedBEEF.js'
+
+/**
+ * Delivers transactions directly to other Engine instances running in the same process, keyed by the domain each one is hosted at.
+ * Useful for wiring several local overlay nodes together, such as in multi-node tests.
+ */
+export class InProcessOverlayTransport implements OverlayTransport {
+  private readonly engines = new Map<string, Engine>()
+
+  /**
+   * Makes an engine reachable at a domain.
+   * @param domain - The domain the engine is hosted at, typically its hosting URL.
+   * @param engine - The engine receiving submissions to the domain.
+   */
+  register(domain: string, engine: Engine): void {
+    this.engines.set(domain, engine)
+  }
+
+  async submit(domain: string, taggedBEEF: TaggedBEEF): Promise<void> {
+    const engine = this.engines.get(domain)
+    if (engine === undefined) {
+      throw new Error(`No engine is registered for the domain: ${domain}`)
+    }
+    await engine.submit(taggedBEEF)
+  }
+}